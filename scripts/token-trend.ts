@@ -1,487 +1,367 @@
 #!/usr/bin/env bun
 // Comprehensive Claude Code usage report.
-// Reads all local JSONL transcripts and produces a structured report:
+// Reads all local JSONL transcripts — Claude Code's, plus Codex and Grok Build session
+// logs when present (see token-trend/sources.ts) — and produces a structured report:
 // 1. Executive summary
 // 2. Per-model distribution
 // 3. Per-project distribution (top 10)
 // 4. Weekly trend
-// 5. Cache efficiency + counterfactual savings
-// 6. Tool use intensity
-// 7. Top 10 most expensive sessions
-
-import { readFileSync, readdirSync, statSync } from "node:fs";
-import { join, basename } from "node:path";
-
-const PROJECTS_DIR = join(process.env.USERPROFILE || process.env.HOME!, ".claude", "projects");
-
-// Pricing per 1M tokens (USD, public API rates).
-// Cache_creation rates reflect the 1h ephemeral tier (5m is cheaper).
-const PRICING: Record<string, { input: number; output: number; cacheRead: number; cacheCreate: number }> = {
-  "claude-opus-4-7":       { input: 15,   output: 75,   cacheRead: 1.5,  cacheCreate: 18.75 },
-  "claude-opus-4-6":       { input: 15,   output: 75,   cacheRead: 1.5,  cacheCreate: 18.75 },
-  "claude-opus-4-5":       { input: 15,   output: 75,   cacheRead: 1.5,  cacheCreate: 18.75 },
-  "claude-sonnet-4-6":     { input: 3,    output: 15,   cacheRead: 0.3,  cacheCreate: 3.75 },
-  "claude-sonnet-4-5":     { input: 3,    output: 15,   cacheRead: 0.3,  cacheCreate: 3.75 },
-  "claude-haiku-4-5":      { input: 0.8,  output: 4,    cacheRead: 0.08, cacheCreate: 1.0 },
-};
-
-function modelKey(rawModel: string): string {
-  return rawModel.replace(/-2\d{7}.*$/, "").replace(/-2026\d{4}.*$/, "");
-}
-
-function priceFor(model: string) {
-  const k = modelKey(model);
-  return PRICING[k] ?? PRICING["claude-sonnet-4-6"];
-}
-
-type SessionStats = {
-  sessionId: string;
-  projectDir: string;
-  cwd: string | null;
-  firstTs: string | null;
-  lastTs: string | null;
-  userMsgs: number;
-  assistantMsgs: number;
-  toolUses: Map<string, number>;
-  agentInvocations: Map<string, number>;
-  skillInvocations: Map<string, number>;
-  slashCommands: Map<string, number>;
-  toolErrorsByTool: Map<string, number>;
-  toolCallsByToolId: Map<string, string>;
-  interruptions: number;
-  fileReads: Map<string, number>;
-  bashExitErrors: number;
-  modelTokens: Map<string, { input: number; output: number; cacheRead: number; cacheCreate: number }>;
-};
-
-function newSession(sessionId: string, projectDir: string): SessionStats {
-  return {
-    sessionId,
-    projectDir,
-    cwd: null,
-    firstTs: null,
-    lastTs: null,
-    userMsgs: 0,
-    assistantMsgs: 0,
-    toolUses: new Map(),
-    agentInvocations: new Map(),
-    skillInvocations: new Map(),
-    slashCommands: new Map(),
-    toolErrorsByTool: new Map(),
-    toolCallsByToolId: new Map(),
-    interruptions: 0,
-    fileReads: new Map(),
-    bashExitErrors: 0,
-    modelTokens: new Map(),
-  };
+// 5. Tool use intensity
+// 6. Subagents: invocations plus the cost of their sidechain transcripts
+// 7-8. Skills and slash commands
+// 9. Errors and token waste
+// 10. Top 10 most expensive sessions
+// 11. Context-window health
+// 12. Per user (merged bundles only)
+//
+// This file is only the command line: argument parsing, loading and output. The parsing,
+// aggregation and rendering it calls are exported by token-trend/lib.ts, and importing
+// this module runs nothing (main() starts only when it is the entry point).
+//
+// Usage: bun scripts/token-trend.ts [command] [options]
+//   report (default)      the full usage report above.
+//   session <id|prefix>   turn-by-turn timeline of one session: tokens, context growth,
+//                         running cost, tool calls with result sizes/errors, compactions.
+//   blocks                rolling 5-hour usage blocks (the quota reset windows): tokens, cost,
+//                         burn rate, and for the active block time left and projected usage.
+//   compare [current] [baseline]
+//                         deltas between two ranges (YYYY-Www or FROM..TO; default this ISO
+//                         week so far vs last week): cost, tokens/msg, cache share, error
+//                         rate, interruptions, re-reads, per model/project/subagent/skill.
+//                         --project/--model/--harness apply to both; --since/--until do not.
+//   check                 evaluates the budgets in ~/.claude/token-trend/budgets.json (or --budgets)
+//                         for the current day/week/month; lists those over or near their limit
+//                         and exits 1 when any is exceeded. Ignores --since/--project/--model.
+//   statusline            one line for Claude Code's statusLine command: reads its JSON payload
+//                         on stdin and parses only that session's transcript (setup in
+//                         docs/statusline-setup.md).
+//   export                anonymised bundle of the sessions in range (JSON, to --out or stdout):
+//                         per-session counts by day, model, project alias and tool; no paths
+//                         or prompt text (see token-trend/bundle.ts). Safe to commit or share.
+//   merge <bundle...>     the full report over several users' bundles, with a per-user section.
+//                         Takes the same --format/--out; the filters apply at export instead.
+//
+// Options:
+//   --format        table (default, console), json (versioned schema, see token-trend/report.ts),
+//                   csv (one file per section, --out <dir> required), markdown or html (one
+//                   offline page; for report, a dashboard with charts and session timelines).
+//   --out           write to this file (json/markdown/html) or directory (csv) instead of stdout.
+//   --since/--until YYYY-MM-DD, ISO timestamp or relative (12h, 7d, 2w). Applied per message.
+//   --project       glob over the session cwd / project dir (full path or last segment).
+//   --model         substring of the model key (e.g. opus, claude-sonnet-4-6).
+//   --harness       only these harnesses, comma-separated: claude, codex, grok (default: all found).
+//   --projects-dir  Claude Code transcripts root (default ~/.claude/projects).
+//   --codex-dir     Codex rollout root (default $CODEX_HOME/sessions, else ~/.codex/sessions).
+//   --grok-dir      Grok Build session root (default ~/.grok/sessions).
+//   --index         index location (default ~/.claude/token-trend/index.sqlite). Only new or
+//                   appended transcript bytes are parsed on each run; see token-trend/index-db.ts.
+//                   Codex and Grok logs are the exception: their records depend on earlier ones,
+//                   so any change to such a file re-parses it whole.
+//   --rebuild       discard the index and re-parse every transcript.
+//   --no-index      parse transcripts straight from disk, leaving the index untouched.
+//   --pricing       pricing file overriding the bundled token-trend/pricing.json per model key
+//                   (default ~/.claude/token-trend/pricing.json when present).
+//   --token-limit/--cost-limit  (blocks) flag blocks above this many tokens / USD; the active
+//                   block's projection is checked against them too.
+//   --budgets       (check) budgets file instead of ~/.claude/token-trend/budgets.json.
+//   --fields        (statusline) comma-separated subset/order of model,session,today,block,cache,errors.
+//   --user          (export) name the bundle is merged under (default: the OS user name).
+//   --salt          (export) key for the path aliases; share it across a team so the same repository
+//                   gets the same alias everywhere (default: a random per-machine salt).
+//   --raw           count every streamed assistant fragment (no message.id/requestId dedupe);
+//                   inflates message and token totals, kept to compare with older reports.
+
+import type { Database } from "bun:sqlite";
+import { mkdirSync, writeFileSync } from "node:fs";
+import { userInfo } from "node:os";
+import { join } from "node:path";
+import { parseArgs } from "node:util";
+import {
+  aggregate,
+  buildBlocks,
+  buildBundle,
+  buildComparison,
+  buildTimeline,
+  checkBudgets,
+  checkSince,
+  dashboardSessionIds,
+  defaultIndexPath,
+  defaultRanges,
+  FORMATS,
+  loadBudgets,
+  loadMessageGroups,
+  loadMessageGroupsFromIndex,
+  loadPricing,
+  loadSalt,
+  loadSessions,
+  loadSessionsFromIndex,
+  mergeBundles,
+  openIndex,
+  openIndexReadonly,
+  parseDateBound,
+  parseRange,
+  parseStatuslineFields,
+  parseStatuslineInput,
+  projectsDirOf,
+  readBundle,
+  readSessionGroup,
+  render,
+  renderBlocks,
+  renderBlocksCsv,
+  renderCheck,
+  renderCheckCsv,
+  renderComparison,
+  renderComparisonCsv,
+  renderStatusline,
+  renderTimeline,
+  renderTimelineCsv,
+  resolveSources,
+  statuslineData,
+  STATUSLINE_FIELDS,
+  syncIndex,
+  usageEntries,
+  userBudgetsPath,
+  type BlockLimits,
+  type BudgetFile,
+  type Bundle,
+  type DateRange,
+  type Filters,
+  type Format,
+  type ParseOptions,
+  type Report,
+  type SessionTimeline,
+  type Source,
+  type StatuslineField,
+  type StatuslineInput,
+} from "./token-trend/lib.ts";
+
+const COMMANDS = ["report", "session", "blocks", "compare", "check", "statusline", "export", "merge"] as const;
+
+function fail(message: string): never {
+  console.error(`token-trend: ${message}`);
+  process.exit(2);
 }
 
-function addTokens(s: SessionStats, model: string, usage: any) {
-  const m = modelKey(model);
-  const cur = s.modelTokens.get(m) ?? { input: 0, output: 0, cacheRead: 0, cacheCreate: 0 };
-  cur.input += usage.input_tokens || 0;
-  cur.output += usage.output_tokens || 0;
-  cur.cacheRead += usage.cache_read_input_tokens || 0;
-  cur.cacheCreate += usage.cache_creation_input_tokens || 0;
-  s.modelTokens.set(m, cur);
+function parseLimit(flag: string, value: string | undefined): number | undefined {
+  if (value === undefined) return undefined;
+  const n = Number(value);
+  if (!Number.isFinite(n) || n <= 0) throw new Error(`invalid --${flag} "${value}" (expected a positive number)`);
+  return n;
 }
 
-function totalCost(s: SessionStats): number {
-  let cost = 0;
-  for (const [model, t] of s.modelTokens) {
-    const p = priceFor(model);
-    cost += (t.input * p.input + t.output * p.output + t.cacheRead * p.cacheRead + t.cacheCreate * p.cacheCreate) / 1_000_000;
+export async function main(argv: string[]) {
+  const { values: args, positionals } = parseArgs({
+    args: argv,
+    allowPositionals: true,
+    options: {
+      format: { type: "string", default: "table" },
+      out: { type: "string" },
+      since: { type: "string" },
+      until: { type: "string" },
+      project: { type: "string" },
+      model: { type: "string" },
+      harness: { type: "string" },
+      "projects-dir": { type: "string" },
+      "codex-dir": { type: "string" },
+      "grok-dir": { type: "string" },
+      index: { type: "string" },
+      rebuild: { type: "boolean", default: false },
+      "no-index": { type: "boolean", default: false },
+      raw: { type: "boolean", default: false },
+      pricing: { type: "string" },
+      "token-limit": { type: "string" },
+      "cost-limit": { type: "string" },
+      budgets: { type: "string" },
+      fields: { type: "string", default: STATUSLINE_FIELDS.join(",") },
+      user: { type: "string" },
+      salt: { type: "string" },
+    },
+  });
+
+  const [command = "report", ...commandArgs] = positionals;
+  if (!(COMMANDS as readonly string[]).includes(command)) fail(`unknown command "${command}" (expected ${COMMANDS.join("|")})`);
+
+  const format = args.format as Format;
+  if (!FORMATS.includes(format)) fail(`unknown --format "${args.format}" (expected ${FORMATS.join("|")})`);
+  if (format === "csv" && !args.out) fail("--format csv writes one file per section and needs --out <dir>");
+
+  let filters: Filters;
+  let parseOpts: ParseOptions;
+  let limits: BlockLimits;
+  let statuslineFields: StatuslineField[];
+  let budgetFile: BudgetFile | null;
+  let sources: Source[];
+  try {
+    parseOpts = { raw: args.raw, pricing: loadPricing(args.pricing) };
+    filters = {
+      since: args.since ? parseDateBound(args.since, "since") : undefined,
+      until: args.until ? parseDateBound(args.until, "until") : undefined,
+      project: args.project,
+      model: args.model,
+      harness: args.harness,
+    };
+    statuslineFields = parseStatuslineFields(args.fields!);
+    budgetFile = command === "check" ? loadBudgets(args.budgets) : null;
+    limits = { tokens: parseLimit("token-limit", args["token-limit"]), costUsd: parseLimit("cost-limit", args["cost-limit"]) };
+    sources = resolveSources({ claude: args["projects-dir"], codex: args["codex-dir"], grok: args["grok-dir"] }, args.harness);
+  } catch (err) {
+    fail((err as Error).message);
   }
-  return cost;
-}
-
-function totalTokens(s: SessionStats): number {
-  let total = 0;
-  for (const t of s.modelTokens.values()) total += t.input + t.output + t.cacheRead + t.cacheCreate;
-  return total;
-}
-
-function counterfactualCost(s: SessionStats): number {
-  // What it would have cost without cache (cache_read + cache_create treated as plain input).
-  let cost = 0;
-  for (const [model, t] of s.modelTokens) {
-    const p = priceFor(model);
-    const inputEquiv = t.input + t.cacheRead + t.cacheCreate;
-    cost += (inputEquiv * p.input + t.output * p.output) / 1_000_000;
-  }
-  return cost;
-}
-
-const sessions: SessionStats[] = [];
-
-for (const projDir of readdirSync(PROJECTS_DIR)) {
-  const full = join(PROJECTS_DIR, projDir);
-  if (!statSync(full).isDirectory()) continue;
-  for (const f of readdirSync(full)) {
-    if (!f.endsWith(".jsonl")) continue;
-    const sessionId = f.replace(/\.jsonl$/, "");
-    const s = newSession(sessionId, projDir);
-    const filePath = join(full, f);
 
-    let content: string;
-    try { content = readFileSync(filePath, "utf8"); } catch { continue; }
-
-    for (const line of content.split("\n")) {
-      if (!line.trim()) continue;
-      let obj: any;
-      try { obj = JSON.parse(line); } catch { continue; }
-
-      if (obj.timestamp) {
-        if (!s.firstTs || obj.timestamp < s.firstTs) s.firstTs = obj.timestamp;
-        if (!s.lastTs || obj.timestamp > s.lastTs) s.lastTs = obj.timestamp;
+  /** Runs `fn` against a synced index (reporting what the sync parsed), closing it afterwards. */
+  function withIndex<T>(fn: (db: Database) => T): T {
+    const db = openIndex(args.index ?? defaultIndexPath(), { rebuild: args.rebuild });
+    try {
+      const sync = syncIndex(db, sources);
+      if (sync.updated > 0) {
+        console.error(`token-trend: index updated (${sync.updated}/${sync.transcripts} transcripts, ${(sync.bytesParsed / 1_048_576).toFixed(1)} MB parsed)`);
       }
-      if (obj.cwd && !s.cwd) s.cwd = obj.cwd;
-
-      if (obj.type === "user") {
-        s.userMsgs++;
-        const content = obj.message?.content;
-        const text = typeof content === "string" ? content : Array.isArray(content) ? content.filter((b: any) => b?.type === "text").map((b: any) => b.text).join("\n") : "";
-        const cmdMatches = text.match(/<command-name>\/?([a-zA-Z0-9_:.\-]+)<\/command-name>/g);
-        if (cmdMatches) {
-          for (const m of cmdMatches) {
-            const name = m.replace(/<\/?command-name>/g, "").replace(/^\//, "");
-            s.slashCommands.set(name, (s.slashCommands.get(name) ?? 0) + 1);
-          }
-        }
-        // Tool error detection
-        if (Array.isArray(content)) {
-          for (const block of content) {
-            if (block?.type === "tool_result") {
-              const txt = typeof block.content === "string" ? block.content : Array.isArray(block.content) ? block.content.map((b: any) => b?.text || "").join("") : "";
-              const isErr = block.is_error === true;
-              const toolName = s.toolCallsByToolId.get(block.tool_use_id) ?? "?";
-              if (isErr) {
-                s.toolErrorsByTool.set(toolName, (s.toolErrorsByTool.get(toolName) ?? 0) + 1);
-              } else if (toolName === "Bash" && /^Exit code [1-9]/m.test(txt)) {
-                s.bashExitErrors++;
-              }
-              if (/<interrupted/i.test(txt)) s.interruptions++;
-            }
-          }
-        }
-      } else if (obj.type === "assistant") {
-        s.assistantMsgs++;
-        const msg = obj.message;
-        if (msg?.usage && msg?.model) addTokens(s, msg.model, msg.usage);
-        if (Array.isArray(msg?.content)) {
-          for (const block of msg.content) {
-            if (block?.type === "tool_use" && block.name) {
-              s.toolUses.set(block.name, (s.toolUses.get(block.name) ?? 0) + 1);
-              if (block.id) s.toolCallsByToolId.set(block.id, block.name);
-              if (block.name === "Agent" && block.input?.subagent_type) {
-                const a = block.input.subagent_type;
-                s.agentInvocations.set(a, (s.agentInvocations.get(a) ?? 0) + 1);
-              } else if (block.name === "Skill" && block.input?.skill) {
-                const sk = block.input.skill;
-                s.skillInvocations.set(sk, (s.skillInvocations.get(sk) ?? 0) + 1);
-              } else if (block.name === "Read" && block.input?.file_path) {
-                const fp = block.input.file_path;
-                s.fileReads.set(fp, (s.fileReads.get(fp) ?? 0) + 1);
-              }
-            }
-          }
-        }
+      if (sync.failed.length > 0) {
+        console.error(`token-trend: ${sync.failed.length} transcripts could not be indexed and are left out — retried on the next run:`);
+        for (const f of sync.failed) console.error(`  ${f.path}: ${f.error}`);
       }
+      return fn(db);
+    } finally {
+      db.close();
     }
-
-    if (s.userMsgs + s.assistantMsgs > 0) sessions.push(s);
-  }
-}
-
-// ----- AGGREGATIONS -----
-const totalSessions = sessions.length;
-const totalUserMsgs = sessions.reduce((a, s) => a + s.userMsgs, 0);
-const totalAsstMsgs = sessions.reduce((a, s) => a + s.assistantMsgs, 0);
-const totalCostAll = sessions.reduce((a, s) => a + totalCost(s), 0);
-const totalTokensAll = sessions.reduce((a, s) => a + totalTokens(s), 0);
-const totalCounterfactual = sessions.reduce((a, s) => a + counterfactualCost(s), 0);
-
-const allTimestamps = sessions.map(s => s.lastTs).filter(Boolean).sort();
-const firstActivity = allTimestamps[0]?.slice(0, 10) ?? "n/a";
-const lastActivity = allTimestamps[allTimestamps.length - 1]?.slice(0, 10) ?? "n/a";
-
-// Per-model
-type ModelAgg = { input: number; output: number; cacheRead: number; cacheCreate: number; cost: number; sessions: Set<string> };
-const byModel = new Map<string, ModelAgg>();
-for (const s of sessions) {
-  for (const [model, t] of s.modelTokens) {
-    const agg = byModel.get(model) ?? { input: 0, output: 0, cacheRead: 0, cacheCreate: 0, cost: 0, sessions: new Set() };
-    agg.input += t.input;
-    agg.output += t.output;
-    agg.cacheRead += t.cacheRead;
-    agg.cacheCreate += t.cacheCreate;
-    const p = priceFor(model);
-    agg.cost += (t.input * p.input + t.output * p.output + t.cacheRead * p.cacheRead + t.cacheCreate * p.cacheCreate) / 1_000_000;
-    agg.sessions.add(s.sessionId);
-    byModel.set(model, agg);
-  }
-}
-
-// Per-project (cwd or projectDir fallback)
-type ProjAgg = { sessions: number; userMsgs: number; asstMsgs: number; tokens: number; cost: number };
-const byProject = new Map<string, ProjAgg>();
-for (const s of sessions) {
-  const key = s.cwd || s.projectDir;
-  const agg = byProject.get(key) ?? { sessions: 0, userMsgs: 0, asstMsgs: 0, tokens: 0, cost: 0 };
-  agg.sessions++;
-  agg.userMsgs += s.userMsgs;
-  agg.asstMsgs += s.assistantMsgs;
-  agg.tokens += totalTokens(s);
-  agg.cost += totalCost(s);
-  byProject.set(key, agg);
-}
-
-// Per-week
-function isoWeek(dateStr: string): string {
-  const d = new Date(dateStr);
-  const target = new Date(Date.UTC(d.getUTCFullYear(), d.getUTCMonth(), d.getUTCDate()));
-  const dayNum = (target.getUTCDay() + 6) % 7;
-  target.setUTCDate(target.getUTCDate() - dayNum + 3);
-  const firstThursday = new Date(Date.UTC(target.getUTCFullYear(), 0, 4));
-  const week = 1 + Math.round(((target.getTime() - firstThursday.getTime()) / 86400000 - 3 + ((firstThursday.getUTCDay() + 6) % 7)) / 7);
-  return `${target.getUTCFullYear()}-W${String(week).padStart(2, "0")}`;
-}
-
-type WeekAgg = { sessions: number; userMsgs: number; asstMsgs: number; tokens: number; cacheRead: number; cacheCreate: number; cost: number };
-const byWeek = new Map<string, WeekAgg>();
-for (const s of sessions) {
-  if (!s.lastTs) continue;
-  const w = isoWeek(s.lastTs);
-  const agg = byWeek.get(w) ?? { sessions: 0, userMsgs: 0, asstMsgs: 0, tokens: 0, cacheRead: 0, cacheCreate: 0, cost: 0 };
-  agg.sessions++;
-  agg.userMsgs += s.userMsgs;
-  agg.asstMsgs += s.assistantMsgs;
-  agg.tokens += totalTokens(s);
-  agg.cost += totalCost(s);
-  for (const t of s.modelTokens.values()) {
-    agg.cacheRead += t.cacheRead;
-    agg.cacheCreate += t.cacheCreate;
   }
-  byWeek.set(w, agg);
-}
 
-// Tool use aggregation
-const toolUseTotal = new Map<string, number>();
-const agentTotal = new Map<string, number>();
-const skillTotal = new Map<string, number>();
-const cmdTotal = new Map<string, number>();
-const toolErrorTotal = new Map<string, number>();
-const fileReReadsTotal = new Map<string, number>();
-let totalInterruptions = 0;
-let totalBashExitErrors = 0;
-for (const s of sessions) {
-  for (const [tool, n] of s.toolUses) toolUseTotal.set(tool, (toolUseTotal.get(tool) ?? 0) + n);
-  for (const [a, n] of s.agentInvocations) agentTotal.set(a, (agentTotal.get(a) ?? 0) + n);
-  for (const [sk, n] of s.skillInvocations) skillTotal.set(sk, (skillTotal.get(sk) ?? 0) + n);
-  for (const [c, n] of s.slashCommands) cmdTotal.set(c, (cmdTotal.get(c) ?? 0) + n);
-  for (const [t, n] of s.toolErrorsByTool) toolErrorTotal.set(t, (toolErrorTotal.get(t) ?? 0) + n);
-  for (const [fp, n] of s.fileReads) {
-    if (n > 1) fileReReadsTotal.set(fp, (fileReReadsTotal.get(fp) ?? 0) + (n - 1));
+  function emit(text: string) {
+    if (args.out) writeFileSync(args.out, text);
+    else console.log(text);
   }
-  totalInterruptions += s.interruptions;
-  totalBashExitErrors += s.bashExitErrors;
-}
-const totalToolErrors = Array.from(toolErrorTotal.values()).reduce((a, b) => a + b, 0);
-const totalToolCalls = Array.from(toolUseTotal.values()).reduce((a, b) => a + b, 0);
-const totalReReads = Array.from(fileReReadsTotal.values()).reduce((a, b) => a + b, 0);
-
-// ----- OUTPUT -----
-function fmt(n: number): string { return n.toLocaleString("es-ES"); }
-function pct(n: number, total: number): string { return total > 0 ? ((n / total) * 100).toFixed(1) + "%" : "0%"; }
 
-function printTable(rows: (string | number)[][], align: ("l" | "r")[] = []) {
-  const str = rows.map(r => r.map(c => String(c)));
-  const widths = str[0].map((_, i) => Math.max(...str.map(r => (r[i] ?? "").length)));
-  for (const row of str) {
-    console.log(row.map((c, i) => (align[i] === "l" ? c.padEnd(widths[i]) : c.padStart(widths[i]))).join("  "));
+  function emitCsv(files: Map<string, string>) {
+    mkdirSync(args.out!, { recursive: true });
+    for (const [name, body] of files) writeFileSync(join(args.out!, name), body);
+    console.error(`token-trend: CSV written to ${args.out}`);
   }
-}
-
-console.log("\n========================================================");
-console.log("  CLAUDE CODE — INFORME DE USO");
-console.log("========================================================\n");
-
-console.log("## 1. Resumen ejecutivo\n");
-const cacheReads = Array.from(byModel.values()).reduce((a, m) => a + m.cacheRead, 0);
-const cacheCreates = Array.from(byModel.values()).reduce((a, m) => a + m.cacheCreate, 0);
-const freshInputs = Array.from(byModel.values()).reduce((a, m) => a + m.input, 0);
-const outputs = Array.from(byModel.values()).reduce((a, m) => a + m.output, 0);
-
-printTable([
-  ["Periodo cubierto",       firstActivity + " → " + lastActivity],
-  ["Sesiones",               fmt(totalSessions)],
-  ["Mensajes (user)",        fmt(totalUserMsgs)],
-  ["Mensajes (assistant)",   fmt(totalAsstMsgs)],
-  ["Tokens totales",         fmt(totalTokensAll)],
-  ["  - Input fresh",        fmt(freshInputs) + "  (" + pct(freshInputs, totalTokensAll) + ")"],
-  ["  - Cache read",         fmt(cacheReads) + "  (" + pct(cacheReads, totalTokensAll) + ")"],
-  ["  - Cache create",       fmt(cacheCreates) + "  (" + pct(cacheCreates, totalTokensAll) + ")"],
-  ["  - Output",             fmt(outputs) + "  (" + pct(outputs, totalTokensAll) + ")"],
-  ["Coste USD equiv. API",   "$" + totalCostAll.toFixed(2)],
-  ["Sin cache costaría",     "$" + totalCounterfactual.toFixed(2)],
-  ["Ahorro por cache",       "$" + (totalCounterfactual - totalCostAll).toFixed(2) + "  (" + pct(totalCounterfactual - totalCostAll, totalCounterfactual) + ")"],
-  ["Avg tokens / sesión",    totalSessions > 0 ? fmt(Math.round(totalTokensAll / totalSessions)) : "n/a"],
-  ["Avg tokens / msg",       (totalUserMsgs + totalAsstMsgs) > 0 ? fmt(Math.round(totalTokensAll / (totalUserMsgs + totalAsstMsgs))) : "n/a"],
-  ["Avg msgs / sesión",      totalSessions > 0 ? ((totalUserMsgs + totalAsstMsgs) / totalSessions).toFixed(1) : "n/a"],
-], ["l", "l"]);
-
-console.log("\n## 2. Distribución por modelo\n");
-const modelRows: (string | number)[][] = [["Modelo", "Sesiones", "Input", "Cache R", "Cache C", "Output", "Tokens", "% gasto", "USD"]];
-const modelSorted = [...byModel.entries()].sort((a, b) => b[1].cost - a[1].cost);
-for (const [model, agg] of modelSorted) {
-  const tot = agg.input + agg.output + agg.cacheRead + agg.cacheCreate;
-  modelRows.push([
-    model,
-    agg.sessions.size,
-    fmt(agg.input),
-    fmt(agg.cacheRead),
-    fmt(agg.cacheCreate),
-    fmt(agg.output),
-    fmt(tot),
-    pct(agg.cost, totalCostAll),
-    "$" + agg.cost.toFixed(2),
-  ]);
-}
-printTable(modelRows, ["l"]);
 
-console.log("\n## 3. Top 10 proyectos por gasto\n");
-const projSorted = [...byProject.entries()].sort((a, b) => b[1].cost - a[1].cost).slice(0, 10);
-const projRows: (string | number)[][] = [["Proyecto", "Sess", "User msgs", "Asst msgs", "Tokens", "% gasto", "USD"]];
-for (const [proj, agg] of projSorted) {
-  const short = proj.length > 50 ? "..." + proj.slice(-47) : proj;
-  projRows.push([short, agg.sessions, fmt(agg.userMsgs), fmt(agg.asstMsgs), fmt(agg.tokens), pct(agg.cost, totalCostAll), "$" + agg.cost.toFixed(2)]);
-}
-printTable(projRows, ["l"]);
-
-console.log("\n## 4. Tendencia semanal\n");
-const weekSorted = [...byWeek.entries()].sort((a, b) => a[0].localeCompare(b[0]));
-const weekRows: (string | number)[][] = [["Semana", "Sess", "User", "Asst", "Tokens", "Tok/msg", "Cache%", "USD"]];
-for (const [w, agg] of weekSorted) {
-  const totalMsgs = agg.userMsgs + agg.asstMsgs;
-  weekRows.push([
-    w,
-    agg.sessions,
-    fmt(agg.userMsgs),
-    fmt(agg.asstMsgs),
-    fmt(agg.tokens),
-    totalMsgs > 0 ? fmt(Math.round(agg.tokens / totalMsgs)) : "n/a",
-    pct(agg.cacheRead, agg.tokens),
-    "$" + agg.cost.toFixed(2),
-  ]);
-}
-printTable(weekRows, ["l"]);
-
-console.log("\n## 5. Top 15 tool uses\n");
-const toolSorted = [...toolUseTotal.entries()].sort((a, b) => b[1] - a[1]).slice(0, 15);
-const toolTotal = Array.from(toolUseTotal.values()).reduce((a, b) => a + b, 0);
-const toolRows: (string | number)[][] = [["Tool", "Llamadas", "%"]];
-for (const [t, n] of toolSorted) toolRows.push([t, fmt(n), pct(n, toolTotal)]);
-toolRows.push(["TOTAL", fmt(toolTotal), "100%"]);
-printTable(toolRows, ["l"]);
-
-console.log("\n## 6. Subagentes invocados\n");
-const agentSorted = [...agentTotal.entries()].sort((a, b) => b[1] - a[1]);
-const agentTotalCount = Array.from(agentTotal.values()).reduce((a, b) => a + b, 0);
-if (agentSorted.length === 0) console.log("(ningún subagente invocado)");
-else {
-  const agentRows: (string | number)[][] = [["Subagent", "Invocaciones", "%"]];
-  for (const [a, n] of agentSorted) agentRows.push([a, fmt(n), pct(n, agentTotalCount)]);
-  agentRows.push(["TOTAL", fmt(agentTotalCount), "100%"]);
-  printTable(agentRows, ["l"]);
-}
-
-console.log("\n## 7. Skills invocadas\n");
-const skillSorted = [...skillTotal.entries()].sort((a, b) => b[1] - a[1]);
-const skillTotalCount = Array.from(skillTotal.values()).reduce((a, b) => a + b, 0);
-if (skillSorted.length === 0) console.log("(ninguna skill invocada)");
-else {
-  const skillRows: (string | number)[][] = [["Skill", "Invocaciones", "%"]];
-  for (const [sk, n] of skillSorted) skillRows.push([sk, fmt(n), pct(n, skillTotalCount)]);
-  skillRows.push(["TOTAL", fmt(skillTotalCount), "100%"]);
-  printTable(skillRows, ["l"]);
-}
-
-console.log("\n## 8. Slash commands lanzados\n");
-const cmdSorted = [...cmdTotal.entries()].sort((a, b) => b[1] - a[1]);
-const cmdTotalCount = Array.from(cmdTotal.values()).reduce((a, b) => a + b, 0);
-if (cmdSorted.length === 0) console.log("(ningún slash command detectado)");
-else {
-  const cmdRows: (string | number)[][] = [["Comando", "Veces", "%"]];
-  for (const [c, n] of cmdSorted) cmdRows.push(["/" + c, fmt(n), pct(n, cmdTotalCount)]);
-  cmdRows.push(["TOTAL", fmt(cmdTotalCount), "100%"]);
-  printTable(cmdRows, ["l"]);
-}
-
-console.log("\n## 9. Errores y desperdicio de tokens\n");
-const wasteApproxCost = totalCostAll * (totalToolErrors / Math.max(totalToolCalls, 1));
-printTable([
-  ["Tool calls totales",        fmt(totalToolCalls)],
-  ["Tool errors (is_error=true)", fmt(totalToolErrors) + "  (" + pct(totalToolErrors, totalToolCalls) + ")"],
-  ["Bash con exit code != 0",   fmt(totalBashExitErrors)],
-  ["Mensajes interrumpidos",    fmt(totalInterruptions)],
-  ["Re-lecturas mismo file (>1x)", fmt(totalReReads)],
-  ["Coste-desperdicio aprox.",  "$" + wasteApproxCost.toFixed(2) + "  (" + pct(totalToolErrors, totalToolCalls) + " del coste)"],
-], ["l", "l"]);
-
-console.log("\n### Errores por tool\n");
-const errSorted = [...toolErrorTotal.entries()].sort((a, b) => b[1] - a[1]);
-if (errSorted.length === 0) console.log("(sin errores registrados)");
-else {
-  const errRows: (string | number)[][] = [["Tool", "Errores", "Total calls", "Tasa error"]];
-  for (const [t, n] of errSorted) {
-    const calls = toolUseTotal.get(t) ?? 0;
-    errRows.push([t, fmt(n), fmt(calls), pct(n, calls)]);
+  /** Renders a report in the requested format; `timelines` supplies the HTML dashboard's session drill-downs. */
+  function emitReport(report: Report, timelines: (ids: Set<string>) => SessionTimeline[]) {
+    if (format === "csv") emitCsv(render(report, "csv"));
+    else emit(render(report, format, format === "html" ? timelines(dashboardSessionIds(report)) : []));
   }
-  printTable(errRows, ["l"]);
-}
 
-console.log("\n### Top 10 ficheros más re-leídos en la misma sesión\n");
-const reReadsSorted = [...fileReReadsTotal.entries()].sort((a, b) => b[1] - a[1]).slice(0, 10);
-if (reReadsSorted.length === 0) console.log("(sin re-lecturas detectadas)");
-else {
-  const rrRows: (string | number)[][] = [["Re-lecturas", "Fichero"]];
-  for (const [fp, n] of reReadsSorted) {
-    const short = fp.length > 70 ? "..." + fp.slice(-67) : fp;
-    rrRows.push([fmt(n), short]);
-  }
-  printTable(rrRows);
-}
+  if (command === "statusline") {
+    let input: StatuslineInput;
+    try {
+      input = parseStatuslineInput(await Bun.stdin.text());
+    } catch (err) {
+      fail((err as Error).message);
+    }
+    const current = readSessionGroup(input);
+    // Other sessions come from the index as last synced; a missing index just leaves them out.
+    // A day back covers the gap the active block is chained from unless usage never paused.
+    const since = Date.now() - 24 * 3_600_000;
+    const db = args["no-index"] ? null : openIndexReadonly(args.index ?? defaultIndexPath());
+    try {
+      const roots = resolveSources({ claude: args["projects-dir"] ?? projectsDirOf(input.transcriptPath), codex: args["codex-dir"], grok: args["grok-dir"] }, args.harness);
+      const others = db ? loadMessageGroupsFromIndex(db, roots, { since }, id => id !== input.sessionId) : [];
+      console.log(renderStatusline(statuslineData(input, current, others, parseOpts), statuslineFields));
+    } finally {
+      db?.close();
+    }
+  } else if (command === "session") {
+    const prefix = commandArgs[0];
+    if (!prefix) fail("session needs a session id or id prefix");
+    const match = (id: string) => id.startsWith(prefix);
+    const groups = args["no-index"]
+      ? loadMessageGroups(sources, match)
+      : withIndex(db => [...loadMessageGroupsFromIndex(db, sources, {}, match)]);
+    if (groups.length === 0) fail(`no session matches "${prefix}"`);
+    if (groups.length > 1) {
+      fail(`"${prefix}" matches ${groups.length} sessions: ${groups.slice(0, 10).map(g => g.sessionId).join(", ")}${groups.length > 10 ? ", ..." : ""}`);
+    }
+    const timeline = buildTimeline(groups[0], parseOpts);
+    if (format === "csv") emitCsv(renderTimelineCsv(timeline));
+    else emit(renderTimeline(timeline, format));
+  } else if (command === "blocks") {
+    const entries = args["no-index"]
+      ? usageEntries(loadMessageGroups(sources), filters, parseOpts)
+      : withIndex(db => usageEntries(loadMessageGroupsFromIndex(db, sources, filters), filters, parseOpts));
+    const blocks = buildBlocks(entries, filters, limits);
+    if (format === "csv") emitCsv(renderBlocksCsv(blocks));
+    else emit(renderBlocks(blocks, format));
+  } else if (command === "compare") {
+    let ranges: { current: DateRange; baseline: DateRange };
+    try {
+      const defaults = defaultRanges();
+      ranges = {
+        current: commandArgs[0] ? parseRange(commandArgs[0]) : defaults.current,
+        baseline: commandArgs[1] ? parseRange(commandArgs[1]) : defaults.baseline,
+      };
+    } catch (err) {
+      fail((err as Error).message);
+    }
+    const scoped = (r: DateRange): Filters => ({ ...filters, since: r.since, until: r.until });
+    const [current, baseline] = args["no-index"]
+      ? [loadSessions(sources, scoped(ranges.current), parseOpts), loadSessions(sources, scoped(ranges.baseline), parseOpts)]
+      : withIndex(db => [loadSessionsFromIndex(db, sources, scoped(ranges.current), parseOpts), loadSessionsFromIndex(db, sources, scoped(ranges.baseline), parseOpts)]);
+    const comparison = buildComparison(
+      aggregate(current, scoped(ranges.current), parseOpts),
+      aggregate(baseline, scoped(ranges.baseline), parseOpts),
+      ranges,
+      { ...filters, since: undefined, until: undefined },
+    );
+    if (format === "csv") emitCsv(renderComparisonCsv(comparison));
+    else emit(renderComparison(comparison, format));
+  } else if (command === "check") {
+    if (!budgetFile) fail(`no budgets configured (create ${userBudgetsPath()} or pass --budgets <file>)`);
+    const since = checkSince(budgetFile);
+    const groups = args["no-index"]
+      ? loadMessageGroups(sources)
+      : withIndex(db => [...loadMessageGroupsFromIndex(db, sources, { since })]);
+    const check = checkBudgets(budgetFile, groups, parseOpts);
+    if (format === "csv") emitCsv(renderCheckCsv(check));
+    else emit(renderCheck(check, format));
+    if (check.exceeded > 0) process.exit(1);
+  } else if (command === "export") {
+    const sessions = args["no-index"]
+      ? loadSessions(sources, filters, parseOpts)
+      : withIndex(db => loadSessionsFromIndex(db, sources, filters, parseOpts));
+    let salt: string;
+    try {
+      salt = args.salt ?? loadSalt();
+    } catch (err) {
+      fail((err as Error).message);
+    }
+    const bundle = buildBundle(sessions, args.user ?? userInfo().username, salt, args.raw);
+    emit(JSON.stringify(bundle, null, 2) + "\n");
+    if (args.out) console.error(`token-trend: ${bundle.sessions.length} sessions exported for "${bundle.user}" to ${args.out}`);
+  } else if (command === "merge") {
+    if (commandArgs.length === 0) fail("merge needs one or more bundle files (from `export`)");
+    let bundles: Bundle[];
+    try {
+      bundles = commandArgs.map(readBundle);
+    } catch (err) {
+      fail((err as Error).message);
+    }
+    const { sessions, duplicates } = mergeBundles(bundles);
+    if (duplicates > 0) console.error(`token-trend: ${duplicates} sessions found in more than one bundle, counted once`);
+    // Bundles carry no transcripts, so the dashboard has no timelines to link.
+    emitReport(aggregate(sessions, {}, { raw: bundles.some(b => b.raw) }), () => []);
+  } else {
+    // One index sync serves the report and then the dashboard's timelines, which read
+    // only the sessions the dashboard links to.
+    const run = (db: Database | null) => {
+      const sessions = db ? loadSessionsFromIndex(db, sources, filters, parseOpts) : loadSessions(sources, filters, parseOpts);
+      const report = aggregate(sessions, filters, parseOpts);
+      if (report.unpricedModels.length > 0) {
+        console.error(`token-trend: no price for ${report.unpricedModels.map(m => m.model).join(", ")} — counted as $0; add them to a pricing file (--pricing)`);
+      }
 
-console.log("\n### Top 10 sesiones con más errores\n");
-const errSessSorted = [...sessions]
-  .map(s => ({ s, errors: Array.from(s.toolErrorsByTool.values()).reduce((a, b) => a + b, 0) }))
-  .filter(x => x.errors > 0)
-  .sort((a, b) => b.errors - a.errors)
-  .slice(0, 10);
-if (errSessSorted.length === 0) console.log("(sin sesiones con errores)");
-else {
-  const esRows: (string | number)[][] = [["Fecha", "Errores", "Interrup.", "USD", "Proyecto"]];
-  for (const { s, errors } of errSessSorted) {
-    const proj = (s.cwd || s.projectDir).split(/[\\/]/).pop() || "?";
-    esRows.push([(s.lastTs ?? "").slice(0, 10), fmt(errors), fmt(s.interruptions), "$" + totalCost(s).toFixed(2), proj]);
+      emitReport(report, ids => {
+        // Whole sessions, like `session <id>`: the timeline is not cut to --since/--until.
+        if (ids.size === 0) return [];
+        const match = (id: string) => ids.has(id);
+        const groups = db ? loadMessageGroupsFromIndex(db, sources, {}, match) : loadMessageGroups(sources, match);
+        return Array.from(groups, g => buildTimeline(g, parseOpts));
+      });
+    };
+    if (args["no-index"]) run(null);
+    else withIndex(run);
   }
-  printTable(esRows, ["l"]);
-}
-
-console.log("\n## 10. Top 10 sesiones más caras\n");
-const sessSorted = [...sessions].sort((a, b) => totalCost(b) - totalCost(a)).slice(0, 10);
-const sessRows: (string | number)[][] = [["Fecha", "User", "Asst", "Tokens", "USD", "Proyecto"]];
-for (const s of sessSorted) {
-  const proj = (s.cwd || s.projectDir).split(/[\\/]/).pop() || "?";
-  sessRows.push([
-    (s.lastTs ?? "").slice(0, 10),
-    fmt(s.userMsgs),
-    fmt(s.assistantMsgs),
-    fmt(totalTokens(s)),
-    "$" + totalCost(s).toFixed(2),
-    proj,
-  ]);
 }
-printTable(sessRows, ["l"]);
 
-console.log("\n========================================================\n");
+if (import.meta.main) await main(Bun.argv.slice(2));
@@ -0,0 +1,155 @@
+// 5-hour usage blocks: the rolling windows subscription quotas reset on, instead of
+// ISO weeks. A block opens at the (UTC) hour of the first assistant turn after the
+// previous block closed and lasts BLOCK_HOURS, whether or not anything happens in it.
+// Turns are costed the way the timeline does (timeline.ts), so a block's cost adds up
+// to the report's for the same range.
+
+import { matchesHarness, matchesProject, recordFilter, type Filters } from "./filters.ts";
+import { ingestMessage, newSession, type MessageGroup, type ParseOptions } from "./parse.ts";
+import { modelKey, totalCost, totalTokens } from "./pricing.ts";
+import { reportFilters, type Report } from "./report.ts";
+
+export const BLOCK_HOURS = 5;
+export const BLOCKS_SCHEMA = "poneglyph.token-trend.blocks";
+export const BLOCKS_SCHEMA_VERSION = 1;
+
+const HOUR_MS = 3_600_000;
+const BLOCK_MS = BLOCK_HOURS * HOUR_MS;
+
+/** Tokens and cost one assistant turn added, with when and where it happened. */
+export type UsageEntry = { ts: number; sessionId: string; model: string; tokens: number; costUsd: number };
+
+/** A token and/or USD ceiling per block; blocks above either one are flagged. */
+export type BlockLimits = { tokens?: number; costUsd?: number };
+
+/** Where the active block ends up if the current burn rate holds until it closes. */
+export type BlockProjection = { remainingMinutes: number; tokens: number; costUsd: number; overLimit: boolean };
+
+export type BlockRow = {
+  start: string;
+  end: string;
+  firstTs: string;
+  lastTs: string;
+  active: boolean;
+  sessions: number;
+  messages: number;
+  tokens: number;
+  costUsd: number;
+  models: string[];
+  /** Rate from the first turn to the last (to now for the active block); null under a minute. */
+  tokensPerHour: number | null;
+  costPerHourUsd: number | null;
+  overLimit: boolean;
+  /** Only set on the active block. */
+  projection: BlockProjection | null;
+};
+
+export type BlocksReport = {
+  schema: typeof BLOCKS_SCHEMA;
+  schemaVersion: number;
+  generatedAt: string;
+  filters: Report["filters"];
+  limits: { tokens: number | null; costUsd: number | null };
+  blockHours: number;
+  blocks: BlockRow[];
+  /** The block still open at generation time, also present in `blocks`. */
+  active: BlockRow | null;
+};
+
+/**
+ * Replays each session's messages and returns one entry per assistant turn that added
+ * usage, in time order. Sessions rejected by the project or harness filter contribute nothing.
+ */
+export function usageEntries(groups: Iterable<MessageGroup>, filters: Filters = {}, opts: ParseOptions = {}): UsageEntry[] {
+  const entries: UsageEntry[] = [];
+  const load = { ...opts, responses: opts.responses ?? new Map<string, string>() };
+  for (const g of groups) {
+    const s = newSession(g.sessionId, g.projectDir, g.harness);
+    const keep = recordFilter(filters);
+    const own: UsageEntry[] = [];
+    for (const m of g.messages) {
+      const kept = keep(m);
+      if (!kept) continue;
+      const tokensBefore = totalTokens(s);
+      const costBefore = totalCost(s);
+      ingestMessage(s, kept, load);
+      if (kept.type !== "assistant" || !kept.timestamp || !kept.model) continue;
+      const tokens = totalTokens(s) - tokensBefore;
+      if (tokens === 0) continue;
+      own.push({ ts: Date.parse(kept.timestamp), sessionId: s.sessionId, model: kept.model, tokens, costUsd: totalCost(s) - costBefore });
+    }
+    if (filters.project && !matchesProject(s, filters.project)) continue;
+    if (filters.harness && !matchesHarness(s.harness, filters.harness)) continue;
+    for (const e of own) if (!Number.isNaN(e.ts)) entries.push(e);
+  }
+  return entries.sort((a, b) => a.ts - b.ts);
+}
+
+function overLimit(tokens: number, costUsd: number, limits: BlockLimits): boolean {
+  return (limits.tokens !== undefined && tokens > limits.tokens) || (limits.costUsd !== undefined && costUsd > limits.costUsd);
+}
+
+/** Groups time-ordered entries into 5-hour blocks. `now` decides which block is active. */
+export function buildBlocks(entries: UsageEntry[], filters: Filters = {}, limits: BlockLimits = {}, now = Date.now()): BlocksReport {
+  const blocks: BlockRow[] = [];
+  for (let i = 0; i < entries.length; ) {
+    const start = Math.floor(entries[i].ts / HOUR_MS) * HOUR_MS;
+    const end = start + BLOCK_MS;
+    const sessions = new Set<string>();
+    const models = new Set<string>();
+    let tokens = 0;
+    let costUsd = 0;
+    let messages = 0;
+    const first = entries[i].ts;
+    let last = first;
+    for (; i < entries.length && entries[i].ts < end; i++) {
+      const e = entries[i];
+      sessions.add(e.sessionId);
+      models.add(modelKey(e.model));
+      tokens += e.tokens;
+      costUsd += e.costUsd;
+      messages++;
+      last = e.ts;
+    }
+
+    const active = now >= start && now < end;
+    const hours = ((active ? now : last) - first) / HOUR_MS;
+    const tokensPerHour = hours >= 1 / 60 ? tokens / hours : null;
+    const costPerHourUsd = hours >= 1 / 60 ? costUsd / hours : null;
+    let projection: BlockProjection | null = null;
+    if (active) {
+      const remainingHours = (end - now) / HOUR_MS;
+      const projTokens = tokens + (tokensPerHour ?? 0) * remainingHours;
+      const projCost = costUsd + (costPerHourUsd ?? 0) * remainingHours;
+      projection = { remainingMinutes: Math.ceil(remainingHours * 60), tokens: Math.round(projTokens), costUsd: projCost, overLimit: overLimit(projTokens, projCost, limits) };
+    }
+
+    blocks.push({
+      start: new Date(start).toISOString(),
+      end: new Date(end).toISOString(),
+      firstTs: new Date(first).toISOString(),
+      lastTs: new Date(last).toISOString(),
+      active,
+      sessions: sessions.size,
+      messages,
+      tokens,
+      costUsd,
+      models: [...models].sort(),
+      tokensPerHour,
+      costPerHourUsd,
+      overLimit: overLimit(tokens, costUsd, limits),
+      projection,
+    });
+  }
+
+  return {
+    schema: BLOCKS_SCHEMA,
+    schemaVersion: BLOCKS_SCHEMA_VERSION,
+    generatedAt: new Date(now).toISOString(),
+    filters: reportFilters(filters),
+    limits: { tokens: limits.tokens ?? null, costUsd: limits.costUsd ?? null },
+    blockHours: BLOCK_HOURS,
+    blocks,
+    active: blocks.find(b => b.active) ?? null,
+  };
+}
@@ -0,0 +1,156 @@
+// Spending budgets and the `check` evaluation behind them.
+//
+// Budgets live in ~/.claude/token-trend/budgets.json (or --budgets <file>): daily,
+// weekly (ISO, from Monday) or monthly limits in USD or tokens, each optionally scoped
+// to a project glob (matched like --project, on the session cwd) and/or a model
+// substring (like --model). Periods are calendar periods in local time, evaluated with
+// the same per-turn usage the blocks view uses.
+
+import { existsSync, readFileSync } from "node:fs";
+import { join } from "node:path";
+import { usageEntries } from "./blocks.ts";
+import type { MessageGroup, ParseOptions } from "./parse.ts";
+import { homeDir } from "./paths.ts";
+
+export const BUDGETS_FILE_VERSION = 1;
+export const CHECK_SCHEMA = "poneglyph.token-trend.check";
+export const CHECK_SCHEMA_VERSION = 1;
+
+export const BUDGET_PERIODS = ["daily", "weekly", "monthly"] as const;
+export type BudgetPeriod = (typeof BUDGET_PERIODS)[number];
+export type BudgetUnit = "usd" | "tokens";
+
+export type Budget = {
+  /** Label in check output; defaults to period + scope. */
+  name?: string;
+  period: BudgetPeriod;
+  unit: BudgetUnit;
+  limit: number;
+  project?: string;
+  model?: string;
+};
+
+export type BudgetFile = {
+  version: number;
+  /** Share of a limit (0-1) from which a budget is reported as near. */
+  warnAt: number;
+  budgets: Budget[];
+};
+
+export type BudgetStatus = {
+  name: string;
+  period: BudgetPeriod;
+  unit: BudgetUnit;
+  project: string | null;
+  model: string | null;
+  periodStart: string;
+  /** Start of the next period (exclusive bound). */
+  periodEnd: string;
+  limit: number;
+  used: number;
+  /** used / limit. */
+  ratio: number;
+  status: "ok" | "near" | "over";
+};
+
+export type CheckReport = {
+  schema: typeof CHECK_SCHEMA;
+  schemaVersion: number;
+  generatedAt: string;
+  warnAt: number;
+  budgets: BudgetStatus[];
+  exceeded: number;
+  near: number;
+};
+
+export function userBudgetsPath(): string {
+  return join(homeDir(), ".claude", "token-trend", "budgets.json");
+}
+
+function readBudgetsFile(path: string): BudgetFile {
+  const raw = JSON.parse(readFileSync(path, "utf8"));
+  if (raw?.version !== BUDGETS_FILE_VERSION) {
+    throw new Error(`${path}: unsupported budgets file version ${raw?.version} (expected ${BUDGETS_FILE_VERSION})`);
+  }
+  const warnAt = raw.warnAt ?? 0.8;
+  if (typeof warnAt !== "number" || warnAt <= 0 || warnAt > 1) throw new Error(`${path}: "warnAt" must be a number in (0, 1]`);
+  if (!Array.isArray(raw.budgets)) throw new Error(`${path}: "budgets" must be a list`);
+  raw.budgets.forEach((b: Budget, i: number) => {
+    if (!BUDGET_PERIODS.includes(b?.period)) throw new Error(`${path}: budget #${i + 1} needs "period" (${BUDGET_PERIODS.join("|")})`);
+    if (b.unit !== "usd" && b.unit !== "tokens") throw new Error(`${path}: budget #${i + 1} needs "unit" (usd|tokens)`);
+    if (typeof b.limit !== "number" || b.limit <= 0) throw new Error(`${path}: budget #${i + 1} needs a positive numeric "limit"`);
+  });
+  return { version: raw.version, warnAt, budgets: raw.budgets };
+}
+
+/** The explicit file, else the default location; null when neither exists. */
+export function loadBudgets(overridePath?: string): BudgetFile | null {
+  const path = overridePath ?? (existsSync(userBudgetsPath()) ? userBudgetsPath() : undefined);
+  return path ? readBudgetsFile(path) : null;
+}
+
+/** Local-time start of the calendar period containing `now`. */
+export function periodStart(period: BudgetPeriod, now = Date.now()): number {
+  const d = new Date(now);
+  d.setHours(0, 0, 0, 0);
+  if (period === "weekly") d.setDate(d.getDate() - ((d.getDay() + 6) % 7));
+  if (period === "monthly") d.setDate(1);
+  return d.getTime();
+}
+
+/** Local-time start of the period after the one containing `now`. */
+export function periodEnd(period: BudgetPeriod, now = Date.now()): number {
+  const d = new Date(periodStart(period, now));
+  if (period === "daily") d.setDate(d.getDate() + 1);
+  if (period === "weekly") d.setDate(d.getDate() + 7);
+  if (period === "monthly") d.setMonth(d.getMonth() + 1);
+  return d.getTime();
+}
+
+function budgetName(b: Budget): string {
+  if (b.name) return b.name;
+  const scope = [b.project && "proyecto " + b.project, b.model && "modelo " + b.model].filter(Boolean).join(", ");
+  return b.period + (scope ? " (" + scope + ")" : " (global)");
+}
+
+/**
+ * Evaluates every budget over its current period; usage timestamped after the period
+ * (a skewed clock, a future-dated log) is not charged to it. `groups` must cover at
+ * least the earliest period start (see checkSince) and is read once per budget.
+ */
+export function checkBudgets(file: BudgetFile, groups: MessageGroup[], opts: ParseOptions = {}, now = Date.now()): CheckReport {
+  const budgets = file.budgets.map((b): BudgetStatus => {
+    const since = periodStart(b.period, now);
+    const until = periodEnd(b.period, now);
+    const entries = usageEntries(groups, { since, until, project: b.project, model: b.model }, opts);
+    const used = entries.reduce((a, e) => a + (b.unit === "usd" ? e.costUsd : e.tokens), 0);
+    const ratio = used / b.limit;
+    return {
+      name: budgetName(b),
+      period: b.period,
+      unit: b.unit,
+      project: b.project ?? null,
+      model: b.model ?? null,
+      periodStart: new Date(since).toISOString(),
+      periodEnd: new Date(until).toISOString(),
+      limit: b.limit,
+      used,
+      ratio,
+      status: ratio > 1 ? "over" : ratio >= file.warnAt ? "near" : "ok",
+    };
+  });
+  return {
+    schema: CHECK_SCHEMA,
+    schemaVersion: CHECK_SCHEMA_VERSION,
+    generatedAt: new Date(now).toISOString(),
+    warnAt: file.warnAt,
+    budgets,
+    exceeded: budgets.filter(b => b.status === "over").length,
+    near: budgets.filter(b => b.status === "near").length,
+  };
+}
+
+/** Earliest period start among the budgets: how far back check needs transcripts. */
+export function checkSince(file: BudgetFile, now = Date.now()): number {
+  return Math.min(now, ...file.budgets.map(b => periodStart(b.period, now)));
+}
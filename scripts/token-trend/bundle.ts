@@ -0,0 +1,210 @@
+// Anonymised export bundles and their team merge.
+//
+// `export` folds the local sessions into one record each that keeps only counts: the
+// day it started and ended (timestamps are cut to the date), its per-model usage and
+// cost, per-tool calls and errors, subagent/skill/command counts, error waste and
+// context stats. Paths never leave the machine: the session id (a relative path for
+// Grok) becomes `session-<hmac>`, the project (cwd, else project dir) `proj-<hmac>` of
+// its directory name, re-read files `file-<hmac>` of their path and /flow plans
+// `plan-<hmac>` of their slug, keyed with a salt (--salt, else a
+// random one kept in ~/.claude/token-trend/export-salt). A team that shares a salt
+// gets the same alias for the same repository on every machine; without it nobody
+// can confirm a guessed name by hashing it. No prompt, command output or tool input
+// text is stored. `merge` turns bundles back into sessions tagged with the exporting
+// user, so the regular report (and its per-user dimension) is built from them.
+
+import { createHmac, randomBytes } from "node:crypto";
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from "node:fs";
+import { dirname, join } from "node:path";
+import type { CommandSpan } from "./commands.ts";
+import { newContextStats, type ContextStats, type LargeResults } from "./context.ts";
+import type { ErrorCategory, ErrorWaste } from "./errors.ts";
+import { newSession, type Harness, type ModelUsage, type SessionStats, type SidechainStats } from "./parse.ts";
+import { homeDir } from "./paths.ts";
+import { subagentType } from "./report.ts";
+import type { SkillHintStats } from "./skills.ts";
+
+export const BUNDLE_SCHEMA = "poneglyph.token-trend.bundle";
+export const BUNDLE_SCHEMA_VERSION = 1;
+
+export type BundleSession = {
+  /** Alias of harness + session id; the same session exported twice keeps it. */
+  sessionId: string;
+  harness: Harness;
+  /** Alias of the session's cwd (or project dir). */
+  project: string;
+  /** YYYY-MM-DD (UTC) of the first and last record. */
+  firstDay: string | null;
+  lastDay: string | null;
+  userMsgs: number;
+  assistantMsgs: number;
+  interruptions: number;
+  bashExitErrors: number;
+  duplicateFragments: number;
+  replayedResponses: number;
+  models: Record<string, ModelUsage>;
+  tools: Record<string, number>;
+  toolErrors: Record<string, number>;
+  agents: Record<string, number>;
+  skills: Record<string, number>;
+  commands: Record<string, number>;
+  /** Reads per file alias, only for files read more than once. */
+  reReads: Record<string, number>;
+  skillHints: Record<string, SkillHintStats>;
+  errorWaste: Partial<Record<ErrorCategory, ErrorWaste>>;
+  subagents: (Omit<SidechainStats, "agentId" | "promptKey"> & { subagentType: string })[];
+  /** startTs cut to the day, plan aliased. */
+  commandSpans: CommandSpan[];
+  /** Compaction timestamps cut to the day. */
+  context: Omit<ContextStats, "largeResults" | "lastPrompt" | "pendingCompact"> & { largeResults: Record<string, LargeResults> };
+};
+
+export type Bundle = {
+  schema: typeof BUNDLE_SCHEMA;
+  schemaVersion: number;
+  generatedAt: string;
+  user: string;
+  /** Exported with --raw (streamed fragments not deduplicated). */
+  raw: boolean;
+  period: { from: string | null; to: string | null };
+  sessions: BundleSession[];
+};
+
+export function userSaltPath(): string {
+  return join(homeDir(), ".claude", "token-trend", "export-salt");
+}
+
+/** The salt kept in the user's token-trend directory, created on first use. */
+export function loadSalt(): string {
+  const path = userSaltPath();
+  if (existsSync(path)) return readFileSync(path, "utf8").trim();
+  const salt = randomBytes(16).toString("hex");
+  mkdirSync(dirname(path), { recursive: true });
+  writeFileSync(path, salt + "\n", { mode: 0o600 });
+  return salt;
+}
+
+function alias(kind: string, salt: string, value: string): string {
+  return kind + "-" + createHmac("sha256", salt).update(value).digest("hex").slice(0, 10);
+}
+
+const day = (ts: string | null) => ts?.slice(0, 10) ?? null;
+
+function exportSession(s: SessionStats, salt: string): BundleSession {
+  const { largeResults, lastPrompt, pendingCompact, compactions, ...context } = s.context;
+  const reReads: Record<string, number> = {};
+  for (const [file, n] of s.fileReads) {
+    if (n > 1) reReads[alias("file", salt, file)] = n;
+  }
+  return {
+    sessionId: alias("session", salt, s.harness + ":" + s.sessionId),
+    harness: s.harness,
+    project: alias("proj", salt, (s.cwd || s.projectDir).split(/[\\/]/).filter(Boolean).pop() ?? ""),
+    firstDay: day(s.firstTs),
+    lastDay: day(s.lastTs),
+    userMsgs: s.userMsgs,
+    assistantMsgs: s.assistantMsgs,
+    interruptions: s.interruptions,
+    bashExitErrors: s.bashExitErrors,
+    duplicateFragments: s.duplicateFragments,
+    replayedResponses: s.replayedResponses,
+    models: Object.fromEntries(s.modelTokens),
+    tools: Object.fromEntries(s.toolUses),
+    toolErrors: Object.fromEntries(s.toolErrorsByTool),
+    agents: Object.fromEntries(s.agentInvocations),
+    skills: Object.fromEntries(s.skillInvocations),
+    commands: Object.fromEntries(s.slashCommands),
+    reReads,
+    skillHints: Object.fromEntries(s.skillHintStats),
+    errorWaste: Object.fromEntries(s.errorWaste),
+    subagents: [...s.sidechains.values()].map(c => ({
+      subagentType: subagentType(s, c.agentId, c.promptKey),
+      tokens: c.tokens,
+      costUsd: c.costUsd,
+      toolCalls: c.toolCalls,
+      toolErrors: c.toolErrors,
+    })),
+    commandSpans: s.commandSpans.map(span => ({ ...span, plan: span.plan && alias("plan", salt, span.plan), startTs: day(span.startTs) })),
+    context: { ...context, compactions: compactions.map(c => ({ ...c, timestamp: day(c.timestamp) })), largeResults: Object.fromEntries(largeResults) },
+  };
+}
+
+export function buildBundle(sessions: SessionStats[], user: string, salt: string, raw = false): Bundle {
+  const days = sessions.flatMap(s => [day(s.firstTs), day(s.lastTs)]).filter((d): d is string => !!d).sort();
+  return {
+    schema: BUNDLE_SCHEMA,
+    schemaVersion: BUNDLE_SCHEMA_VERSION,
+    generatedAt: new Date().toISOString(),
+    user,
+    raw,
+    period: { from: days[0] ?? null, to: days[days.length - 1] ?? null },
+    sessions: sessions.map(s => exportSession(s, salt)),
+  };
+}
+
+export function readBundle(path: string): Bundle {
+  const raw = JSON.parse(readFileSync(path, "utf8"));
+  if (raw?.schema !== BUNDLE_SCHEMA) throw new Error(`${path}: not a token-trend export bundle`);
+  if (raw.schemaVersion !== BUNDLE_SCHEMA_VERSION) {
+    throw new Error(`${path}: unsupported bundle version ${raw.schemaVersion} (expected ${BUNDLE_SCHEMA_VERSION})`);
+  }
+  if (typeof raw.user !== "string" || raw.user === "") throw new Error(`${path}: bundle lacks "user"`);
+  if (!Array.isArray(raw.sessions)) throw new Error(`${path}: "sessions" must be a list`);
+  return raw;
+}
+
+function importSession(b: BundleSession, user: string): SessionStats {
+  const s = newSession(b.sessionId, b.project, b.harness);
+  Object.assign(s, {
+    user,
+    cwd: b.project,
+    firstTs: b.firstDay,
+    lastTs: b.lastDay,
+    userMsgs: b.userMsgs,
+    assistantMsgs: b.assistantMsgs,
+    interruptions: b.interruptions,
+    bashExitErrors: b.bashExitErrors,
+    duplicateFragments: b.duplicateFragments,
+    replayedResponses: b.replayedResponses,
+    modelTokens: new Map(Object.entries(b.models)),
+    toolUses: new Map(Object.entries(b.tools)),
+    toolErrorsByTool: new Map(Object.entries(b.toolErrors)),
+    agentInvocations: new Map(Object.entries(b.agents)),
+    skillInvocations: new Map(Object.entries(b.skills)),
+    slashCommands: new Map(Object.entries(b.commands)),
+    fileReads: new Map(Object.entries(b.reReads)),
+    skillHintStats: new Map(Object.entries(b.skillHints)),
+    errorWaste: new Map(Object.entries(b.errorWaste)),
+    commandSpans: b.commandSpans,
+    context: { ...newContextStats(), ...b.context, largeResults: new Map(Object.entries(b.context.largeResults)) },
+  });
+  // Subagent types are resolved at export; give each run an id that maps back to it.
+  b.subagents.forEach(({ subagentType: type, ...run }, i) => {
+    const key = "bundle-" + i;
+    s.sidechains.set(key, { agentId: key, promptKey: null, ...run });
+    s.agentTypeByAgentId.set(key, type);
+  });
+  return s;
+}
+
+/**
+ * The bundles' sessions, tagged with the user who exported them. A session found in
+ * more than one bundle (the same export merged twice) is kept once.
+ */
+export function mergeBundles(bundles: Bundle[]): { sessions: SessionStats[]; duplicates: number } {
+  const seen = new Set<string>();
+  const sessions: SessionStats[] = [];
+  let duplicates = 0;
+  for (const bundle of bundles) {
+    for (const b of bundle.sessions) {
+      const key = b.harness + ":" + b.sessionId;
+      if (seen.has(key)) {
+        duplicates++;
+        continue;
+      }
+      seen.add(key);
+      sessions.push(importSession(b, bundle.user));
+    }
+  }
+  return { sessions, duplicates };
+}
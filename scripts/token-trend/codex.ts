@@ -0,0 +1,191 @@
+// Codex CLI adapter: rollout files under ~/.codex/sessions/YYYY/MM/DD/rollout-*.jsonl
+// ($CODEX_HOME/sessions when set).
+//
+// Each line is `{timestamp, type, payload}`: session_meta (id, cwd), turn_context
+// (model, cwd), response_item (messages, function calls and their outputs) and
+// event_msg (token_count after every model response). A token_count becomes one
+// assistant Message carrying the calls made since the previous one. OpenAI usage
+// counts cached tokens inside input_tokens, so they are split out as cache reads;
+// Codex has no cache writes. Shell and apply_patch calls are renamed Bash and Edit
+// so tool sections line up with Claude's.
+
+import { readdirSync } from "node:fs";
+import { join } from "node:path";
+import { planRef } from "./commands.ts";
+import { ERROR_TEXT_CHARS } from "./errors.ts";
+import { blankMessage, callTarget, type Message, type TokenCounts, type ToolCall, type ToolResult, type TranscriptFile } from "./parse.ts";
+import { homeDir } from "./paths.ts";
+import type { RecordNormalizer, SourceAdapter } from "./sources.ts";
+
+const ROLLOUT_RE = /^rollout-.*?([0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12})\.jsonl$/i;
+const SHELL_TOOLS = new Set(["shell", "local_shell", "local_shell_call", "exec_command", "shell_command", "container.exec"]);
+/** Context Codex injects as user messages; not typed by the user. */
+const INJECTED_RE = /^\s*(<environment_context>|<user_instructions>|<user_shell_command>|# AGENTS\.md)/;
+
+function listRollouts(root: string): TranscriptFile[] {
+  const files: TranscriptFile[] = [];
+  const walk = (dir: string) => {
+    let entries;
+    try { entries = readdirSync(dir, { withFileTypes: true }); } catch { return; }
+    for (const e of entries) {
+      if (e.isDirectory()) walk(join(dir, e.name));
+      else if (e.isFile()) {
+        const m = ROLLOUT_RE.exec(e.name);
+        if (m) files.push({ path: join(dir, e.name), sessionId: m[1], projectDir: "codex", sidechain: false });
+      }
+    }
+  };
+  walk(root);
+  return files;
+}
+
+function parseArgs(raw: unknown): any {
+  if (typeof raw !== "string") return raw ?? {};
+  try { return JSON.parse(raw); } catch { return { input: raw }; }
+}
+
+function toolCall(p: any): ToolCall {
+  const name: string = p.name ?? (p.type === "local_shell_call" ? "local_shell_call" : "?");
+  const args = p.type === "local_shell_call" ? p.action ?? {} : parseArgs(p.arguments ?? p.input);
+  const call: ToolCall = { id: p.call_id ?? p.id ?? null, name };
+  if (SHELL_TOOLS.has(name)) {
+    call.name = "Bash";
+    const cmd = Array.isArray(args.command) ? args.command.join(" ") : args.command ?? args.cmd;
+    const target = callTarget({ command: typeof cmd === "string" ? cmd.replace(/^(bash|sh|zsh) -l?c /, "") : undefined });
+    if (target) call.target = target;
+  } else if (name === "apply_patch") {
+    call.name = "Edit";
+    const patch = typeof args.input === "string" ? args.input : typeof args.patch === "string" ? args.patch : "";
+    const file = /^\*\*\* (?:Update|Add|Delete) File: (.+)$/m.exec(patch)?.[1];
+    if (file) call.target = callTarget({ file_path: file.trim() }) ?? undefined;
+  } else if (name === "read_file" && typeof args.path === "string") {
+    call.name = "Read";
+    call.filePath = args.path;
+    call.target = callTarget({ file_path: args.path }) ?? undefined;
+  } else {
+    const target = callTarget(args);
+    if (target) call.target = target;
+  }
+  return call;
+}
+
+function outputText(raw: unknown): { text: string; exitCode: number | null } {
+  let text = typeof raw === "string" ? raw : JSON.stringify(raw ?? "");
+  let exitCode: number | null = null;
+  try {
+    const obj = JSON.parse(text);
+    if (obj && typeof obj === "object" && "output" in obj) {
+      exitCode = typeof obj.metadata?.exit_code === "number" ? obj.metadata.exit_code : null;
+      text = String(obj.output ?? "");
+    }
+  } catch {}
+  const line = /^Exit code:? (\d+)/m.exec(text);
+  if (exitCode === null && line) exitCode = Number(line[1]);
+  return { text, exitCode };
+}
+
+function codexUsage(u: any): TokenCounts {
+  const cached = u.cached_input_tokens || 0;
+  return { input: Math.max(0, (u.input_tokens || 0) - cached), output: u.output_tokens || 0, cacheRead: cached, cacheCreate: 0, cacheCreate5m: 0, cacheCreate1h: 0 };
+}
+
+function codexNormalizer(): RecordNormalizer {
+  let sessionId: string | null = null;
+  let cwd: string | null = null;
+  let model: string | null = null;
+  let lastTotal = -1;
+  let turn = 0;
+  let pending: ToolCall[] = [];
+  let pendingPlans: string[] = [];
+  const callNames = new Map<string, string>();
+
+  const message = (type: Message["type"], timestamp: string | null): Message => ({ ...blankMessage(type, timestamp), sessionId, cwd });
+  const assistant = (timestamp: string | null, usage: TokenCounts | null): Message => {
+    const m = message("assistant", timestamp);
+    m.model = model;
+    m.usage = usage && model ? usage : null;
+    m.responseKey = `${sessionId ?? "codex"}:${turn++}`;
+    m.toolCalls = pending;
+    m.plans = pendingPlans;
+    pending = [];
+    pendingPlans = [];
+    return m;
+  };
+
+  return {
+    push(obj) {
+      // Early rollouts wrote bare items with no {type, payload} envelope.
+      const ts: string | null = obj?.timestamp ?? null;
+      const kind = obj?.payload ? obj.type : "response_item";
+      const p = obj?.payload ?? obj;
+      if (!p || typeof p !== "object") return [];
+
+      if (kind === "session_meta" || (!obj.payload && p.id && p.instructions !== undefined)) {
+        sessionId = p.id ?? sessionId;
+        cwd = p.cwd ?? cwd;
+        return [message("other", ts ?? p.timestamp ?? null)];
+      }
+      if (kind === "turn_context") {
+        model = p.model ?? model;
+        cwd = p.cwd ?? cwd;
+        return [];
+      }
+      if (kind === "event_msg") {
+        if (p.type !== "token_count" || !p.info?.last_token_usage) return [];
+        const total = p.info.total_token_usage?.total_tokens ?? -1;
+        // Codex repeats the last token_count on rate-limit updates.
+        if (total !== -1 && total === lastTotal) return [];
+        lastTotal = total;
+        return [assistant(ts, codexUsage(p.info.last_token_usage))];
+      }
+      if (kind !== "response_item") return [];
+
+      if (p.type === "message" && p.role === "user") {
+        const text = Array.isArray(p.content) ? p.content.map((c: any) => c?.text ?? "").join("\n") : String(p.content ?? "");
+        if (!text.trim() || INJECTED_RE.test(text)) return [];
+        const m = message("user", ts);
+        const cmd = /^\/([a-zA-Z0-9_:.\-]+)/.exec(text.trim());
+        if (cmd) m.commands.push(cmd[1]);
+        m.userPrompt = true;
+        const plan = planRef(text);
+        if (plan) m.plans.push(plan);
+        return [m];
+      }
+      if (p.type === "function_call" || p.type === "custom_tool_call" || p.type === "local_shell_call") {
+        const call = toolCall(p);
+        if (call.id) callNames.set(call.id, call.name);
+        pending.push(call);
+        const plan = planRef(JSON.stringify(p.arguments ?? p.input ?? p.action ?? ""));
+        if (plan && !pendingPlans.includes(plan)) pendingPlans.push(plan);
+        return [];
+      }
+      if (p.type === "function_call_output" || p.type === "custom_tool_call_output") {
+        const { text, exitCode } = outputText(p.output);
+        const isShell = callNames.get(p.call_id) === "Bash";
+        const m = message("user", ts);
+        const result: ToolResult = {
+          toolUseId: p.call_id,
+          isError: !isShell && ((exitCode !== null && exitCode !== 0) || /^(error|failed|apply_patch verification failed)/i.test(text)),
+          exitCodeError: isShell && exitCode !== null && exitCode !== 0,
+          interrupted: /^aborted/i.test(text),
+          chars: text.length,
+        };
+        if (result.isError || result.exitCodeError) result.errorText = text.slice(0, ERROR_TEXT_CHARS);
+        m.toolResults.push(result);
+        return [m];
+      }
+      return [];
+    },
+    flush() {
+      return pending.length > 0 ? [assistant(null, null)] : [];
+    },
+  };
+}
+
+export const codexAdapter: SourceAdapter = {
+  harness: "codex",
+  defaultRoot: () => join(process.env.CODEX_HOME || join(homeDir(), ".codex"), "sessions"),
+  listTranscripts: listRollouts,
+  normalizer: codexNormalizer,
+  resumable: false,
+};
@@ -0,0 +1,84 @@
+// Slash-command spans: every command the user types opens a span that runs until the
+// next typed prompt or command, and the tokens, cost, tool calls, subagents and failed
+// results in between are charged to it. Subagent transcripts are read after the main
+// one, so their records reach a span through the Agent call that spawned them
+// (tool_use id → agentId, or prompt hash for legacy sidechains) rather than by position.
+// A /flow span also takes the first `.claude/plans/{NNN}-{slug}` it references as its
+// plan, so a feature's lifecycle can be costed across runs and sessions.
+
+import type { Message, SidechainStats } from "./parse.ts";
+
+/** What one command invocation cost, up to the next typed prompt. */
+export type CommandSpan = {
+  command: string;
+  /** `{NNN}-{slug}` of the plan a /flow run referenced; null otherwise. */
+  plan: string | null;
+  startTs: string | null;
+  turns: number;
+  tokens: number;
+  costUsd: number;
+  toolCalls: number;
+  subagents: number;
+  errors: number;
+};
+
+/** Per-session bookkeeping: the open span and which span spawned each subagent. */
+export type SpanTracker = {
+  current: CommandSpan | null;
+  byToolId: Map<string, CommandSpan>;
+  byAgentId: Map<string, CommandSpan>;
+  byPrompt: Map<string, CommandSpan>;
+};
+
+const PLAN_RE = /\.claude[\\/]+plans[\\/]+(\d+-[\w-]+)/;
+
+export function newSpanTracker(): SpanTracker {
+  return { current: null, byToolId: new Map(), byAgentId: new Map(), byPrompt: new Map() };
+}
+
+/** `/flow`, also when namespaced by a plugin (`/plugin:flow`). */
+export function isFlow(command: string): boolean {
+  return command === "flow" || command.endsWith(":flow");
+}
+
+/** First plan directory named in a string, or null. */
+export function planRef(text: string): string | null {
+  return PLAN_RE.exec(text)?.[1] ?? null;
+}
+
+/** Closes the open span on a typed prompt and opens a new one when it runs a command. */
+export function trackPromptSpan(t: SpanTracker, spans: CommandSpan[], m: Message) {
+  t.current = null;
+  if (m.commands.length === 0) return;
+  const command = m.commands[0];
+  const span: CommandSpan = { command, plan: isFlow(command) ? m.plans[0] ?? null : null, startTs: m.timestamp, turns: 0, tokens: 0, costUsd: 0, toolCalls: 0, subagents: 0, errors: 0 };
+  spans.push(span);
+  t.current = span;
+}
+
+/** The span a message belongs to: the open one, or for subagent records the one that spawned them. */
+export function spanOf(t: SpanTracker, m: Message, chain: SidechainStats | null): CommandSpan | null {
+  if (!m.isSidechain) return t.current;
+  return (m.agentId && t.byAgentId.get(m.agentId)) || (chain?.promptKey && t.byPrompt.get(chain.promptKey)) || null;
+}
+
+/** Charges an assistant message's usage and calls to its span and remembers the Agent calls it made. */
+export function trackSpanResponse(t: SpanTracker, span: CommandSpan, m: Message, tokens: number, costUsd: number, fragment: boolean) {
+  if (!fragment) span.turns++;
+  span.tokens += tokens;
+  span.costUsd += costUsd;
+  span.toolCalls += m.toolCalls.length;
+  for (const call of m.toolCalls) {
+    if (!call.subagentType) continue;
+    span.subagents++;
+    if (call.id) t.byToolId.set(call.id, span);
+    if (call.promptKey) t.byPrompt.set(call.promptKey, span);
+  }
+  if (!span.plan && isFlow(span.command) && m.plans.length > 0) span.plan = m.plans[0];
+}
+
+/** Links a subagent's agentId (from its Agent result) to the span that spawned it. */
+export function trackSpanAgent(t: SpanTracker, toolUseId: string, agentId: string) {
+  const span = t.byToolId.get(toolUseId);
+  if (span) t.byAgentId.set(agentId, span);
+}
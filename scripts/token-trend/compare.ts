@@ -0,0 +1,146 @@
+// Period-over-period comparison: two Reports built with the same filters over two
+// ranges (default: this ISO week so far vs the whole previous one), diffed into
+// headline metrics and per-model / project / subagent / skill deltas. Ratios
+// (tokens per message, cache share, error rate) compare fairly across ranges of
+// different length; absolute totals do not, so a partial week reads lower.
+
+import { isoWeekStart, type DateRange, type Filters } from "./filters.ts";
+import { isoWeek, reportFilters, type Report } from "./report.ts";
+
+export const COMPARE_SCHEMA = "poneglyph.token-trend.compare";
+export const COMPARE_SCHEMA_VERSION = 1;
+
+/** How many rows per dimension are listed as movers. */
+const MOVERS_PER_DIMENSION = 3;
+/** Headline metrics changing at least this much (relative) are listed as movers. */
+const METRIC_MOVER_PCT = 20;
+
+export type MetricKey = "sessions" | "costUsd" | "costPerSessionUsd" | "tokensPerMsg" | "cacheReadShare" | "toolErrorRate" | "interruptions" | "reReads";
+
+export type Delta = {
+  current: number;
+  baseline: number;
+  delta: number;
+  /** Relative change in %, null when the baseline is 0. */
+  pctChange: number | null;
+};
+
+export type MetricDelta = Delta & {
+  metric: MetricKey;
+  /**
+   * "worse" / "better" by the metric's direction; "flat" under 1% change, when neutral,
+   * or for ratios when either period is empty.
+   */
+  trend: "worse" | "better" | "flat";
+};
+
+export type Dimension = "model" | "project" | "subagent" | "skill";
+export type DimensionDelta = Delta & { dimension: Dimension; name: string; unit: "usd" | "count" };
+
+export type Comparison = {
+  schema: typeof COMPARE_SCHEMA;
+  schemaVersion: number;
+  generatedAt: string;
+  filters: Report["filters"];
+  current: { label: string; since: string; until: string };
+  baseline: { label: string; since: string; until: string };
+  metrics: MetricDelta[];
+  byModel: DimensionDelta[];
+  byProject: DimensionDelta[];
+  bySubagent: DimensionDelta[];
+  bySkill: DimensionDelta[];
+  /** Largest headline and per-dimension changes, most significant first. */
+  movers: { metrics: MetricDelta[]; rows: DimensionDelta[] };
+};
+
+/** Per-session or per-call ratios: meaningless when one of the periods has no sessions. */
+const RATIOS = new Set<MetricKey>(["costPerSessionUsd", "tokensPerMsg", "cacheReadShare", "toolErrorRate"]);
+
+/** +1: a higher value is a regression; -1: an improvement; 0: neutral. */
+const DIRECTION: Record<MetricKey, number> = {
+  sessions: 0,
+  costUsd: 1,
+  costPerSessionUsd: 1,
+  tokensPerMsg: 1,
+  cacheReadShare: -1,
+  toolErrorRate: 1,
+  interruptions: 1,
+  reReads: 1,
+};
+
+/** This ISO week so far and the whole previous week. */
+export function defaultRanges(now = Date.now()): { current: DateRange; baseline: DateRange } {
+  const week = isoWeek(new Date(now).toISOString());
+  const [year, w] = week.split("-W").map(Number);
+  const start = isoWeekStart(year, w);
+  const prevStart = start - 7 * 86_400_000;
+  return {
+    current: { label: week, since: start, until: now },
+    baseline: { label: isoWeek(new Date(prevStart).toISOString()), since: prevStart, until: start },
+  };
+}
+
+function delta(current: number, baseline: number): Delta {
+  return { current, baseline, delta: current - baseline, pctChange: baseline !== 0 ? ((current - baseline) / baseline) * 100 : null };
+}
+
+function headline(r: Report): Record<MetricKey, number> {
+  const s = r.summary;
+  const msgs = s.userMsgs + s.assistantMsgs;
+  return {
+    sessions: s.sessions,
+    costUsd: s.costUsd,
+    costPerSessionUsd: s.sessions > 0 ? s.costUsd / s.sessions : 0,
+    tokensPerMsg: msgs > 0 ? s.tokens / msgs : 0,
+    cacheReadShare: s.tokens > 0 ? (s.cacheRead / s.tokens) * 100 : 0,
+    toolErrorRate: r.errors.toolCalls > 0 ? (r.errors.toolErrors / r.errors.toolCalls) * 100 : 0,
+    interruptions: r.errors.interruptions,
+    reReads: r.errors.reReads,
+  };
+}
+
+function dimensionDeltas(dimension: Dimension, unit: "usd" | "count", cur: Map<string, number>, base: Map<string, number>): DimensionDelta[] {
+  const names = new Set([...cur.keys(), ...base.keys()]);
+  return [...names]
+    .map(name => ({ dimension, name, unit, ...delta(cur.get(name) ?? 0, base.get(name) ?? 0) }))
+    .sort((a, b) => Math.abs(b.delta) - Math.abs(a.delta) || a.name.localeCompare(b.name));
+}
+
+export function buildComparison(current: Report, baseline: Report, ranges: { current: DateRange; baseline: DateRange }, filters: Filters = {}): Comparison {
+  const cur = headline(current);
+  const base = headline(baseline);
+  const comparable = cur.sessions > 0 && base.sessions > 0;
+  const metrics = (Object.keys(DIRECTION) as MetricKey[]).map((metric): MetricDelta => {
+    const d = delta(cur[metric], base[metric]);
+    const moved = (comparable || !RATIOS.has(metric)) && (d.pctChange === null ? d.delta !== 0 : Math.abs(d.pctChange) >= 1);
+    const trend = !moved || DIRECTION[metric] === 0 ? "flat" : Math.sign(d.delta) === DIRECTION[metric] ? "worse" : "better";
+    return { metric, ...d, trend };
+  });
+
+  const byModel = dimensionDeltas("model", "usd", new Map(current.byModel.map(m => [m.model, m.costUsd])), new Map(baseline.byModel.map(m => [m.model, m.costUsd])));
+  const byProject = dimensionDeltas("project", "usd", new Map(current.byProject.map(p => [p.project, p.costUsd])), new Map(baseline.byProject.map(p => [p.project, p.costUsd])));
+  const bySubagent = dimensionDeltas("subagent", "usd", new Map(current.subagents.map(a => [a.subagentType, a.costUsd])), new Map(baseline.subagents.map(a => [a.subagentType, a.costUsd])));
+  const bySkill = dimensionDeltas("skill", "count", new Map(current.skills.map(k => [k.name, k.count])), new Map(baseline.skills.map(k => [k.name, k.count])));
+
+  const pctOrder = (d: Delta) => (d.pctChange === null ? Infinity : Math.abs(d.pctChange));
+  const iso = (ms: number) => new Date(ms).toISOString();
+  return {
+    schema: COMPARE_SCHEMA,
+    schemaVersion: COMPARE_SCHEMA_VERSION,
+    generatedAt: new Date().toISOString(),
+    filters: reportFilters(filters),
+    current: { label: ranges.current.label, since: iso(ranges.current.since), until: iso(ranges.current.until) },
+    baseline: { label: ranges.baseline.label, since: iso(ranges.baseline.since), until: iso(ranges.baseline.until) },
+    metrics,
+    byModel,
+    byProject,
+    bySubagent,
+    bySkill,
+    movers: {
+      metrics: metrics
+        .filter(m => m.trend !== "flat" && (m.pctChange === null || Math.abs(m.pctChange) >= METRIC_MOVER_PCT))
+        .sort((a, b) => pctOrder(b) - pctOrder(a)),
+      rows: [byModel, byProject, bySubagent, bySkill].flatMap(rows => rows.filter(r => r.delta !== 0).slice(0, MOVERS_PER_DIMENSION)),
+    },
+  };
+}
@@ -0,0 +1,101 @@
+// Context-window health of the main conversation (subagents run their own contexts).
+// A turn's prompt size is what its API response read: input + cache read + cache
+// write. From that sequence come the peak and average prompt, the turns before the
+// first compaction and how much each compact boundary freed (preTokens, else the last
+// prompt, minus the first prompt after it). A cache invalidation is a turn that
+// re-writes at least INVALIDATION_MIN_TOKENS to cache while reading back under half of
+// the previous prompt (TTL expiry, edited history); the turn after a compaction is
+// expected to and does not count. Tool results over LARGE_RESULT_TOKENS (chars / 4)
+// are the payloads that bloat the context. Sessions spending CANDIDATE_MIN_TURNS or
+// more turns above HIGH_CONTEXT_TOKENS are candidates for compacting earlier.
+// The per-turn series itself is in the session timeline (`session <id>`).
+
+import type { Message, TokenCounts, ToolResult } from "./parse.ts";
+
+export const HIGH_CONTEXT_TOKENS = 100_000;
+export const LARGE_RESULT_TOKENS = 10_000;
+export const INVALIDATION_MIN_TOKENS = 10_000;
+export const CANDIDATE_MIN_TURNS = 10;
+
+export type CompactEvent = {
+  timestamp: string | null;
+  trigger: string;
+  preTokens: number | null;
+  /** Prompt before minus first prompt after; null until a turn follows. */
+  freedTokens: number | null;
+};
+
+export type LargeResults = { count: number; tokens: number; maxTokens: number };
+
+export type ContextStats = {
+  turns: number;
+  promptTokens: number;
+  peakPromptTokens: number;
+  /** Main turns before the first compact boundary; null when never compacted. */
+  turnsToFirstCompaction: number | null;
+  compactions: CompactEvent[];
+  invalidations: number;
+  invalidatedTokens: number;
+  largeResults: Map<string, LargeResults>;
+  highContextTurns: number;
+  highContextCostUsd: number;
+  /** Prompt of the previous turn, and the compaction awaiting its first turn. */
+  lastPrompt: number | null;
+  pendingCompact: CompactEvent | null;
+};
+
+export function newContextStats(): ContextStats {
+  return {
+    turns: 0,
+    promptTokens: 0,
+    peakPromptTokens: 0,
+    turnsToFirstCompaction: null,
+    compactions: [],
+    invalidations: 0,
+    invalidatedTokens: 0,
+    largeResults: new Map(),
+    highContextTurns: 0,
+    highContextCostUsd: 0,
+    lastPrompt: null,
+    pendingCompact: null,
+  };
+}
+
+export function trackCompact(c: ContextStats, m: Message) {
+  const event: CompactEvent = { timestamp: m.timestamp, trigger: m.compact!.trigger, preTokens: m.compact!.preTokens, freedTokens: null };
+  if (c.compactions.length === 0) c.turnsToFirstCompaction = c.turns;
+  c.compactions.push(event);
+  c.pendingCompact = event;
+}
+
+/** One main-thread API response (first fragment only: later ones repeat its usage). */
+export function trackContextTurn(c: ContextStats, usage: TokenCounts, costUsd: number) {
+  const prompt = usage.input + usage.cacheRead + usage.cacheCreate;
+  if (prompt === 0) return;
+  c.turns++;
+  c.promptTokens += prompt;
+  c.peakPromptTokens = Math.max(c.peakPromptTokens, prompt);
+  if (prompt > HIGH_CONTEXT_TOKENS) {
+    c.highContextTurns++;
+    c.highContextCostUsd += costUsd;
+  }
+  if (c.pendingCompact) {
+    const before = c.pendingCompact.preTokens ?? c.lastPrompt;
+    if (before !== null) c.pendingCompact.freedTokens = Math.max(0, before - prompt);
+    c.pendingCompact = null;
+  } else if (c.lastPrompt !== null && usage.cacheCreate >= INVALIDATION_MIN_TOKENS && usage.cacheRead < c.lastPrompt / 2) {
+    c.invalidations++;
+    c.invalidatedTokens += usage.cacheCreate;
+  }
+  c.lastPrompt = prompt;
+}
+
+export function trackContextResult(c: ContextStats, tool: string, r: ToolResult) {
+  const tokens = Math.ceil(r.chars / 4);
+  if (tokens < LARGE_RESULT_TOKENS) return;
+  const l = c.largeResults.get(tool) ?? { count: 0, tokens: 0, maxTokens: 0 };
+  l.count++;
+  l.tokens += tokens;
+  l.maxTokens = Math.max(l.maxTokens, tokens);
+  c.largeResults.set(tool, l);
+}
@@ -0,0 +1,220 @@
+// HTML dashboard for `report --format html`: one self-contained file (inline CSS, JS
+// and SVG; nothing is fetched, so it opens offline and can be mailed around). Charts
+// are drawn from the Report's own rows — weekly cost and tokens, cache-read share,
+// per-model and per-project cost, tools and error categories — followed by sortable
+// session tables and the full console report. Each session listed links to its
+// timeline further down the page (the same one `session <id>` prints), shown only
+// while it is the URL target.
+
+import { ERROR_CATEGORY_LABELS, esc, fmt, htmlPage, sections, sectionsToHtml, shortProject, timelineSections, usd, type Cell } from "./render.ts";
+import type { Report, SessionRow } from "./report.ts";
+import type { SessionTimeline } from "./timeline.ts";
+
+type Point = { label: string; value: number; tip?: string };
+
+/** Sessions the dashboard tables list, whose timelines the page embeds. */
+export function dashboardSessionIds(r: Report): Set<string> {
+  return new Set([...r.topSessions, ...r.errors.topSessions, ...r.context.compactionCandidates].map(s => s.sessionId));
+}
+
+function short(n: number): string {
+  const abs = Math.abs(n);
+  if (abs >= 1e9) return (n / 1e9).toFixed(1) + "B";
+  if (abs >= 1e6) return (n / 1e6).toFixed(1) + "M";
+  if (abs >= 1e3) return (n / 1e3).toFixed(1) + "k";
+  return String(Math.round(n * 100) / 100);
+}
+
+const shortUsd = (n: number) => "$" + short(n);
+const share = (n: number) => n.toFixed(1) + "%";
+
+function figure(caption: string, svg: string): string {
+  return `<figure><figcaption>${esc(caption)}</figcaption>${svg}</figure>`;
+}
+
+function noData(): string {
+  return '<p class="empty">(sin datos)</p>';
+}
+
+/** Horizontal bars, one row per point, largest value fills the width. */
+function barChart(points: Point[], format: (n: number) => string, warn = false): string {
+  if (points.length === 0) return noData();
+  const rowH = 22, labelW = 190, barW = 300, width = labelW + barW + 80;
+  const max = Math.max(...points.map(p => p.value), 0) || 1;
+  const rows = points.map((p, i) => {
+    const y = i * rowH;
+    const w = Math.max(1, (p.value / max) * barW);
+    const label = p.label.length > 30 ? p.label.slice(0, 29) + "…" : p.label;
+    return `<g><title>${esc(p.tip ?? p.label + ": " + format(p.value))}</title>` +
+      `<text x="${labelW - 6}" y="${y + 15}" text-anchor="end">${esc(label)}</text>` +
+      `<rect class="bar${warn ? " warn" : ""}" x="${labelW}" y="${y + 4}" width="${w.toFixed(1)}" height="${rowH - 8}"/>` +
+      `<text class="axis" x="${(labelW + w + 6).toFixed(1)}" y="${y + 15}">${esc(format(p.value))}</text></g>`;
+  });
+  return `<svg viewBox="0 0 ${width} ${points.length * rowH}" role="img">${rows.join("")}</svg>`;
+}
+
+const PLOT = { width: 560, height: 220, left: 52, right: 10, top: 10, bottom: 34 };
+
+/** Axes, gridlines and x labels shared by the column and line charts; returns the y scale too. */
+function frame(points: Point[], format: (n: number) => string, max: number) {
+  const w = PLOT.width - PLOT.left - PLOT.right;
+  const h = PLOT.height - PLOT.top - PLOT.bottom;
+  const y = (v: number) => PLOT.top + h - (v / max) * h;
+  const step = w / points.length;
+  const parts: string[] = [];
+  for (let i = 0; i <= 4; i++) {
+    const v = (max * i) / 4;
+    parts.push(`<line class="grid" x1="${PLOT.left}" x2="${PLOT.width - PLOT.right}" y1="${y(v).toFixed(1)}" y2="${y(v).toFixed(1)}"/>`);
+    parts.push(`<text class="axis" x="${PLOT.left - 4}" y="${(y(v) + 4).toFixed(1)}" text-anchor="end">${esc(format(v))}</text>`);
+  }
+  const every = Math.ceil(points.length / 10);
+  points.forEach((p, i) => {
+    if (i % every !== 0) return;
+    parts.push(`<text class="axis" x="${(PLOT.left + step * (i + 0.5)).toFixed(1)}" y="${PLOT.height - PLOT.bottom + 16}" text-anchor="middle">${esc(p.label)}</text>`);
+  });
+  return { parts, y, step };
+}
+
+/** Vertical columns over an ordered series (weeks). */
+function columnChart(points: Point[], format: (n: number) => string): string {
+  if (points.length === 0) return noData();
+  const max = Math.max(...points.map(p => p.value), 0) || 1;
+  const { parts, y, step } = frame(points, format, max);
+  points.forEach((p, i) => {
+    const top = y(p.value);
+    parts.push(`<rect class="bar" x="${(PLOT.left + step * i + step * 0.15).toFixed(1)}" y="${top.toFixed(1)}" width="${(step * 0.7).toFixed(1)}" height="${(y(0) - top).toFixed(1)}"><title>${esc(p.tip ?? p.label + ": " + format(p.value))}</title></rect>`);
+  });
+  return `<svg viewBox="0 0 ${PLOT.width} ${PLOT.height}" role="img">${parts.join("")}</svg>`;
+}
+
+/** A line over an ordered series; `max` fixes the scale (100 for percentages). */
+function lineChart(points: Point[], format: (n: number) => string, max?: number): string {
+  if (points.length === 0) return noData();
+  const { parts, y, step } = frame(points, format, max ?? (Math.max(...points.map(p => p.value), 0) || 1));
+  const x = (i: number) => PLOT.left + step * (i + 0.5);
+  parts.push(`<polyline class="line" points="${points.map((p, i) => `${x(i).toFixed(1)},${y(p.value).toFixed(1)}`).join(" ")}"/>`);
+  if (points.length <= 60) {
+    points.forEach((p, i) => parts.push(`<circle class="dot" cx="${x(i).toFixed(1)}" cy="${y(p.value).toFixed(1)}" r="3"><title>${esc(p.tip ?? p.label + ": " + format(p.value))}</title></circle>`));
+  }
+  return `<svg viewBox="0 0 ${PLOT.width} ${PLOT.height}" role="img">${parts.join("")}</svg>`;
+}
+
+function cards(r: Report): string {
+  const s = r.summary;
+  const e = r.errors;
+  const items: [string, string][] = [
+    ["Sesiones", fmt(s.sessions)],
+    ["Coste USD equiv. API", usd(s.costUsd)],
+    ["Tokens", short(s.tokens)],
+    ["Cache read", s.tokens > 0 ? share((s.cacheRead / s.tokens) * 100) : "n/a"],
+    ["Ahorro por cache", usd(s.cacheSavingsUsd)],
+    ["Tool errors", e.toolCalls > 0 ? share((e.toolErrors / e.toolCalls) * 100) : "n/a"],
+    ["Desperdicio medido", usd(e.wasteUsd)],
+    ["Compactaciones", fmt(r.context.compactions)],
+  ];
+  return '<div class="cards">' + items.map(([label, value]) => `<div class="card"><b>${esc(value)}</b><span>${esc(label)}</span></div>`).join("") + "</div>";
+}
+
+function charts(r: Report): string {
+  const weeks = r.byWeek;
+  return '<h2>Gráficos</h2><div class="charts">' + [
+    figure("Coste USD por semana", columnChart(weeks.map(w => ({ label: w.week.slice(5), value: w.costUsd, tip: `${w.week}: ${usd(w.costUsd)} · ${fmt(w.sessions)} sesiones` })), shortUsd)),
+    figure("Tokens por semana", columnChart(weeks.map(w => ({ label: w.week.slice(5), value: w.tokens, tip: `${w.week}: ${fmt(w.tokens)} tokens` })), short)),
+    figure("Eficiencia de cache: % cache read por semana", lineChart(weeks.map(w => ({ label: w.week.slice(5), value: w.tokens > 0 ? (w.cacheRead / w.tokens) * 100 : 0, tip: `${w.week}: ${share(w.tokens > 0 ? (w.cacheRead / w.tokens) * 100 : 0)} cache read` })), share, 100)),
+    figure("Prompt medio (conversación principal) por semana", lineChart(r.context.byWeek.map(w => ({ label: w.week.slice(5), value: w.avgPromptTokens, tip: `${w.week}: ${fmt(w.avgPromptTokens)} tokens de media, pico ${fmt(w.peakPromptTokens)}` })), short)),
+    figure("Coste USD por modelo", barChart(r.byModel.filter(m => m.costUsd > 0 || m.tokens > 0).map(m => ({ label: m.model, value: m.costUsd, tip: `${m.model}: ${usd(m.costUsd)} · ${fmt(m.tokens)} tokens` })), usd)),
+    ...(r.byUser.length > 0 ? [figure("Coste USD por usuario", barChart(r.byUser.map(u => ({ label: u.user, value: u.costUsd, tip: `${u.user}: ${usd(u.costUsd)} · ${fmt(u.sessions)} sesiones` })), usd))] : []),
+    figure("Coste USD por proyecto (top 10)", barChart(r.byProject.slice(0, 10).map(p => ({ label: shortProject(p.project), value: p.costUsd, tip: `${p.project}: ${usd(p.costUsd)} · ${fmt(p.sessions)} sesiones` })), usd)),
+    figure("Tools más usadas (top 15)", barChart(r.tools.slice(0, 15).map(t => ({ label: t.name, value: t.count })), fmt)),
+    figure("Errores por tool", barChart(r.errors.byTool.slice(0, 15).map(t => ({ label: t.tool, value: t.errors, tip: `${t.tool}: ${fmt(t.errors)} de ${fmt(t.calls)} llamadas` })), fmt, true)),
+    figure("Errores por categoría", barChart(r.errors.byCategory.map(c => ({ label: ERROR_CATEGORY_LABELS[c.category], value: c.errors, tip: `${ERROR_CATEGORY_LABELS[c.category]}: ${fmt(c.errors)} errores · ${usd(c.costUsd)} desperdiciados` })), fmt, true)),
+    figure("Desperdicio USD por categoría de error", barChart(r.errors.byCategory.filter(c => c.costUsd > 0).map(c => ({ label: ERROR_CATEGORY_LABELS[c.category], value: c.costUsd })), usd, true)),
+  ].join("") + "</div>";
+}
+
+/** `text` returns HTML; `value` is the sort key when the text is not one. */
+type Column<T> = { label: string; align?: "l"; text: (row: T) => Cell; value?: (row: T) => number | string };
+
+function sortableTable<T>(columns: Column<T>[], rows: T[], empty: string): string {
+  if (rows.length === 0) return `<p class="empty">${esc(empty)}</p>`;
+  const cls = (c: Column<T>) => (c.align === "l" ? "" : ' class="r"');
+  const head = "<thead><tr>" + columns.map(c => `<th${cls(c)}>${esc(c.label)}</th>`).join("") + "</tr></thead>";
+  const body = rows.map(row => "<tr>" + columns.map(c => {
+    const v = c.value ? ` data-v="${esc(c.value(row))}"` : "";
+    return `<td${cls(c)}${v}>${String(c.text(row))}</td>`;
+  }).join("") + "</tr>");
+  return `<table class="sortable">${head}<tbody>${body.join("")}</tbody></table>`;
+}
+
+/** Session id cell: a link to the embedded timeline when there is one. Returns HTML. */
+function sessionLink(id: string, linked: Set<string>): string {
+  return linked.has(id) ? `<a href="#s-${esc(id)}">${esc(id.slice(0, 8))}</a>` : esc(id.slice(0, 8));
+}
+
+function sessionTables(r: Report, linked: Set<string>): string {
+  const day = (ts: string | null) => esc((ts ?? "").slice(0, 16).replace("T", " "));
+  const sessionColumns: Column<SessionRow>[] = [
+    { label: "Sesión", align: "l", text: s => sessionLink(s.sessionId, linked), value: s => s.sessionId },
+    { label: "Proyecto", align: "l", text: s => esc(shortProject(s.project)), value: s => shortProject(s.project) },
+    { label: "Harness", align: "l", text: s => esc(s.harness) },
+    ...(r.byUser.length > 0 ? [{ label: "Usuario", align: "l", text: s => esc(s.user ?? "") } satisfies Column<SessionRow>] : []),
+    { label: "Inicio", align: "l", text: s => day(s.firstTs), value: s => s.firstTs ?? "" },
+    { label: "Fin", align: "l", text: s => day(s.lastTs), value: s => s.lastTs ?? "" },
+    { label: "Msgs", text: s => fmt(s.userMsgs + s.assistantMsgs), value: s => s.userMsgs + s.assistantMsgs },
+    { label: "Tokens", text: s => fmt(s.tokens), value: s => s.tokens },
+    { label: "Errores", text: s => fmt(s.toolErrors), value: s => s.toolErrors },
+    { label: "Interrup.", text: s => fmt(s.interruptions), value: s => s.interruptions },
+    { label: "USD", text: s => usd(s.costUsd), value: s => s.costUsd },
+    { label: "USD desperd.", text: s => usd(s.wasteUsd), value: s => s.wasteUsd },
+  ];
+  const candidateColumns: Column<Report["context"]["compactionCandidates"][number]>[] = [
+    { label: "Sesión", align: "l", text: c => sessionLink(c.sessionId, linked), value: c => c.sessionId },
+    { label: "Proyecto", align: "l", text: c => esc(shortProject(c.project)), value: c => shortProject(c.project) },
+    { label: "Fin", align: "l", text: c => day(c.lastTs), value: c => c.lastTs ?? "" },
+    { label: "Turnos", text: c => fmt(c.turns), value: c => c.turns },
+    { label: "Turnos >100k", text: c => fmt(c.highContextTurns), value: c => c.highContextTurns },
+    { label: "USD >100k", text: c => usd(c.highContextCostUsd), value: c => c.highContextCostUsd },
+    { label: "Pico prompt", text: c => fmt(c.peakPromptTokens), value: c => c.peakPromptTokens },
+    { label: "1ª compactación", align: "l", text: c => (c.firstCompactionTurn === null ? "nunca" : "turno " + c.firstCompactionTurn), value: c => c.firstCompactionTurn ?? Infinity },
+  ];
+  return [
+    '<h2 id="sesiones">Sesiones</h2>',
+    '<p class="note">Click en una cabecera para ordenar; en el id para ver el timeline de la sesión.</p>',
+    "<h3>Top 10 sesiones más caras</h3>",
+    sortableTable(sessionColumns, r.topSessions, "(sin sesiones)"),
+    "<h3>Sesiones con más tool errors</h3>",
+    sortableTable(sessionColumns, r.errors.topSessions, "(ninguna sesión con errores)"),
+    "<h3>Sesiones que se beneficiarían de compactar antes</h3>",
+    sortableTable(candidateColumns, r.context.compactionCandidates, "(ninguna sesión con 10+ turnos por encima de 100k tokens)"),
+  ].join("\n");
+}
+
+function timelineHtml(t: SessionTimeline): string {
+  // Main conversation only: subagents grow their own contexts.
+  const context = t.events.flatMap(e => (e.kind === "turn" && !e.subagent && e.contextTokens > 0 ? [e.contextTokens] : []));
+  const points = context.map((value, i) => ({ label: String(i + 1), value }));
+  return [
+    `<section class="timeline" id="s-${esc(t.sessionId)}">`,
+    '<p><a href="#sesiones">↑ volver a sesiones</a></p>',
+    sectionsToHtml(timelineSections(t)),
+    figure("Contexto por turno (conversación principal)", lineChart(points, short)),
+    "</section>",
+  ].join("\n");
+}
+
+/** The report as an HTML page; `timelines` are embedded for the sessions its tables list. */
+export function renderDashboard(r: Report, timelines: SessionTimeline[]): string {
+  const linked = new Set(timelines.map(t => t.sessionId));
+  const period = `${r.period.from ?? "n/a"} → ${r.period.to ?? "n/a"} · generado ${r.generatedAt.slice(0, 16).replace("T", " ")}`;
+  const body = [
+    `<p class="note">${esc(period)}</p>`,
+    cards(r),
+    charts(r),
+    sessionTables(r, linked),
+    "<details><summary>Informe completo</summary>",
+    sectionsToHtml(sections(r)),
+    "</details>",
+    ...timelines.map(timelineHtml),
+  ].join("\n");
+  return htmlPage("Claude Code — informe de uso", body);
+}
@@ -0,0 +1,161 @@
+// Tool error taxonomy and retry-loop waste.
+//
+// A failed tool result (is_error, or a Bash exit code != 0) is classified from its
+// text and tool into an ErrorCategory. Waste is measured from the turns involved
+// instead of estimated from the error rate: a call costs its share of the API
+// response that issued it (the response's tokens and USD split evenly over its tool
+// calls), and a failed result the tokens its text adds to the context (chars / 4, at
+// the model's input rate). A retry is a later call of the same tool on the same
+// target (path, command, pattern — whitespace-collapsed and cut at 80 chars, so small
+// edits still match) in the same agent while that target's last attempt had failed;
+// a typed user prompt ends every open loop. The failed call, its result and every
+// retry up to the first success are charged to the category of the error that started
+// the loop.
+
+import type { Message, ToolCall, ToolResult } from "./parse.ts";
+import { priceAt, type PricingTable } from "./pricing.ts";
+
+export const ERROR_CATEGORIES = [
+  "edit_string_not_found",
+  "file_not_found",
+  "permission_denied",
+  "hook_blocked",
+  "timeout",
+  "user_rejected",
+  "interrupted",
+  "command_failure",
+  "other",
+] as const;
+export type ErrorCategory = (typeof ERROR_CATEGORIES)[number];
+
+/** Failed results and what they cost, for one category (or one project). */
+export type ErrorWaste = {
+  errors: number;
+  /** Failed calls that were retried at least once. */
+  retryLoops: number;
+  retries: number;
+  tokens: number;
+  costUsd: number;
+};
+
+/** How much of a failed result's text is kept in a Message, for classification. */
+export const ERROR_TEXT_CHARS = 300;
+
+// First match wins: rejections and hooks quote the tool's own message, so they go first.
+const RULES: [ErrorCategory, RegExp][] = [
+  ["user_rejected", /user doesn't want to (proceed|take this action)|tool use was rejected|\buser (rejected|declined|denied)\b/i],
+  ["interrupted", /\[Request interrupted by user|<interrupted/i],
+  ["hook_blocked", /\bhook\b.*\b(block(ed)?|denied|prevented|error)\b|\b(Pre|Post)ToolUse\b|blocked by (a )?hook/i],
+  ["timeout", /timed out|\bETIMEDOUT\b|timeout (exceeded|expired)/i],
+  ["permission_denied", /permission denied|\bEACCES\b|\bEPERM\b|operation not permitted|permission to use .* (has been )?denied|haven't granted it yet/i],
+  ["edit_string_not_found", /string to replace not found|old_string (was )?not found|no match(es)? found for|did not match any/i],
+  ["file_not_found", /does not exist|no such file|\bENOENT\b|file not found|cannot find (the )?(file|path)/i],
+];
+
+export function emptyWaste(): ErrorWaste {
+  return { errors: 0, retryLoops: 0, retries: 0, tokens: 0, costUsd: 0 };
+}
+
+export function addWaste(into: ErrorWaste, w: ErrorWaste) {
+  into.errors += w.errors;
+  into.retryLoops += w.retryLoops;
+  into.retries += w.retries;
+  into.tokens += w.tokens;
+  into.costUsd += w.costUsd;
+}
+
+/** Category of a failed result; null when the result is not a failure. */
+export function classifyError(tool: string, r: ToolResult): ErrorCategory | null {
+  const failed = r.isError || (tool === "Bash" && r.exitCodeError);
+  if (!failed) return null;
+  const text = r.errorText ?? "";
+  for (const [category, re] of RULES) {
+    if (re.test(text) || (category === "interrupted" && r.interrupted)) return category;
+  }
+  return tool === "Bash" ? "command_failure" : "other";
+}
+
+type ResponseShare = { tokens: number; costUsd: number; calls: number; model: string | null; timestamp: string | null };
+type PendingCall = { tool: string; loopKey: string | null; responseKey: string };
+/** resultTokens / resultCostUsd: what the last failed attempt's result was charged. */
+type Loop = { category: ErrorCategory; retries: number; resultTokens: number; resultCostUsd: number };
+
+/** Per-session bookkeeping between a call, its result and its retries. */
+export type RetryTracker = {
+  responses: Map<string, ResponseShare>;
+  calls: Map<string, PendingCall>;
+  /** Open loops by agent + tool + target: the last attempt failed. */
+  loops: Map<string, Loop>;
+  /** Responses without a key get a synthetic one. */
+  unkeyed: number;
+};
+
+export function newRetryTracker(): RetryTracker {
+  return { responses: new Map(), calls: new Map(), loops: new Map(), unkeyed: 0 };
+}
+
+function loopKey(m: Message, call: ToolCall): string | null {
+  if (!call.target) return null;
+  return [m.isSidechain ? m.agentId ?? "sidechain" : "", call.name, call.target].join("\0");
+}
+
+/** Records the tokens and cost an assistant message added and the calls it made. */
+export function trackResponse(t: RetryTracker, m: Message, tokens: number, costUsd: number) {
+  const key = m.responseKey ?? "#" + t.unkeyed++;
+  const share = t.responses.get(key) ?? { tokens: 0, costUsd: 0, calls: 0, model: m.model, timestamp: m.timestamp };
+  share.tokens += tokens;
+  share.costUsd += costUsd;
+  share.calls += m.toolCalls.length;
+  t.responses.set(key, share);
+  for (const call of m.toolCalls) {
+    if (call.id) t.calls.set(call.id, { tool: call.name, loopKey: loopKey(m, call), responseKey: key });
+  }
+}
+
+/** A typed prompt: whatever the agent retries next was asked for, not a loop. */
+export function trackPrompt(t: RetryTracker) {
+  t.loops.clear();
+}
+
+/**
+ * Folds one tool result into the per-category waste. Returns the result's category
+ * (null when it succeeded).
+ */
+export function trackResult(t: RetryTracker, waste: Map<ErrorCategory, ErrorWaste>, r: ToolResult, pricing: PricingTable): ErrorCategory | null {
+  const call = t.calls.get(r.toolUseId);
+  const category = classifyError(call?.tool ?? "?", r);
+  const loop = call?.loopKey ? t.loops.get(call.loopKey) : undefined;
+  if (!category && !loop) return null;
+
+  const share = call ? t.responses.get(call.responseKey) : undefined;
+  const callTokens = share && share.calls > 0 ? share.tokens / share.calls : 0;
+  const callCost = share && share.calls > 0 ? share.costUsd / share.calls : 0;
+  const resultTokens = category ? Math.ceil(r.chars / 4) : 0;
+  const price = share?.model ? priceAt(pricing, share.model, share.timestamp) : null;
+  const resultCost = price ? (resultTokens * price.input) / 1_000_000 : 0;
+
+  if (category) {
+    const own = waste.get(category) ?? emptyWaste();
+    own.errors++;
+    waste.set(category, own);
+  }
+  // A loop stays with the category that opened it, even when a retry fails differently:
+  // that is also the bucket its earlier failed results were charged to.
+  const charged = loop?.category ?? category!;
+  const w = waste.get(charged) ?? emptyWaste();
+  w.tokens += callTokens + resultTokens;
+  w.costUsd += callCost + resultCost;
+  if (loop) {
+    // The previous failed result is part of this retry's prompt, already charged above.
+    w.tokens = Math.max(0, w.tokens - loop.resultTokens);
+    w.costUsd = Math.max(0, w.costUsd - loop.resultCostUsd);
+    if (loop.retries++ === 0) w.retryLoops++;
+    w.retries++;
+    if (!category) t.loops.delete(call!.loopKey!);
+    else Object.assign(loop, { resultTokens, resultCostUsd: resultCost });
+  } else if (call?.loopKey) {
+    t.loops.set(call.loopKey, { category: category!, retries: 0, resultTokens, resultCostUsd: resultCost });
+  }
+  waste.set(charged, w);
+  return category;
+}
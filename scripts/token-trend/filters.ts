@@ -0,0 +1,123 @@
+// Report filters: date range (per message timestamp), project glob, model and harness.
+
+import { modelKey } from "./pricing.ts";
+import type { Message, SessionStats } from "./parse.ts";
+
+export type Filters = {
+  /** Inclusive lower bound, epoch ms. */
+  since?: number;
+  /** Exclusive upper bound, epoch ms. */
+  until?: number;
+  project?: string;
+  model?: string;
+  /** Comma-separated harness names (claude, codex, grok). */
+  harness?: string;
+};
+
+const RELATIVE_RE = /^(\d+)([hdw])$/;
+const UNIT_MS: Record<string, number> = { h: 3_600_000, d: 86_400_000, w: 7 * 86_400_000 };
+
+/**
+ * Parses a CLI date bound: relative (`12h`, `7d`, `2w` — counted back from now),
+ * a date (`2026-10-01`, UTC) or a full ISO timestamp. A bare date used as `until`
+ * covers that whole day.
+ */
+export function parseDateBound(value: string, bound: "since" | "until", now = Date.now()): number {
+  const rel = RELATIVE_RE.exec(value);
+  if (rel) return now - Number(rel[1]) * UNIT_MS[rel[2]];
+  const dateOnly = /^\d{4}-\d{2}-\d{2}$/.test(value);
+  const ms = Date.parse(dateOnly ? value + "T00:00:00Z" : value);
+  if (Number.isNaN(ms)) throw new Error(`invalid --${bound} "${value}" (expected YYYY-MM-DD, ISO timestamp or Nh/Nd/Nw)`);
+  return dateOnly && bound === "until" ? ms + UNIT_MS.d : ms;
+}
+
+/** Monday 00:00 UTC of an ISO week (`2026-W42`). */
+export function isoWeekStart(year: number, week: number): number {
+  const jan4 = Date.UTC(year, 0, 4);
+  const mondayW1 = jan4 - ((new Date(jan4).getUTCDay() + 6) % 7) * UNIT_MS.d;
+  return mondayW1 + (week - 1) * UNIT_MS.w;
+}
+
+/** A closed-open time range with the label it was given. */
+export type DateRange = { label: string; since: number; until: number };
+
+/**
+ * Parses a compare range: an ISO week (`2026-W42`) or `FROM..TO` where each side is
+ * anything --since/--until accept (a missing TO means now).
+ */
+export function parseRange(value: string, now = Date.now()): DateRange {
+  const week = /^(\d{4})-W(\d{2})$/i.exec(value);
+  if (week) {
+    const [year, w] = [Number(week[1]), Number(week[2])];
+    const since = isoWeekStart(year, w);
+    if (w < 1 || since >= isoWeekStart(year + 1, 1)) throw new Error(`invalid week "${value}" (${year} has no week ${w})`);
+    return { label: value.toUpperCase(), since, until: since + UNIT_MS.w };
+  }
+  const [from, to] = value.split("..");
+  if (to === undefined || !from) throw new Error(`invalid range "${value}" (expected YYYY-Www or FROM..TO)`);
+  const range = { label: value, since: parseDateBound(from, "since", now), until: to ? parseDateBound(to, "until", now) : now };
+  if (range.since >= range.until) throw new Error(`invalid range "${value}" (empty)`);
+  return range;
+}
+
+function globToRegExp(glob: string): RegExp {
+  let re = "";
+  for (let i = 0; i < glob.length; i++) {
+    const c = glob[i];
+    if (c === "*") {
+      if (glob[i + 1] === "*") { re += ".*"; i++; }
+      else re += "[^/]*";
+    } else if (c === "?") re += "[^/]";
+    else re += c.replace(/[.+^${}()|[\]\\]/g, "\\$&");
+  }
+  return new RegExp("^" + re + "$", "i");
+}
+
+/** Glob match against the session cwd and project dir, full path or last segment. Backslashes count as `/`. */
+export function matchesProject(s: SessionStats, glob: string): boolean {
+  const re = globToRegExp(glob.replace(/\\/g, "/"));
+  for (const candidate of [s.cwd, s.projectDir]) {
+    if (!candidate) continue;
+    const p = candidate.replace(/\\/g, "/").replace(/\/+$/, "");
+    if (re.test(p) || re.test(p.split("/").pop() ?? "")) return true;
+  }
+  return false;
+}
+
+/** Case-insensitive substring match on the normalised model key (`opus`, `claude-sonnet-4-6`). */
+export function matchesModel(rawModel: string, name: string): boolean {
+  return modelKey(rawModel).toLowerCase().includes(name.toLowerCase());
+}
+
+export function matchesHarness(harness: string, list: string): boolean {
+  return list.split(",").some(h => h.trim().toLowerCase() === harness);
+}
+
+/**
+ * Builds a per-transcript message filter. Returns the message to ingest (possibly
+ * with tool results removed) or null to drop it. Stateful: tool results are dropped
+ * together with the tool_use of an excluded assistant message.
+ */
+export function recordFilter(f: Filters): (m: Message) => Message | null {
+  const droppedToolIds = new Set<string>();
+  return (m: Message) => {
+    if (m.timestamp && (f.since !== undefined || f.until !== undefined)) {
+      const ts = Date.parse(m.timestamp);
+      if (f.since !== undefined && ts < f.since) return null;
+      if (f.until !== undefined && ts >= f.until) return null;
+    }
+    if (!f.model) return m;
+
+    if (m.type === "assistant") {
+      if (!m.model || matchesModel(m.model, f.model)) return m;
+      for (const call of m.toolCalls) if (call.id) droppedToolIds.add(call.id);
+      return null;
+    }
+    if (m.type === "user" && m.toolResults.length > 0 && droppedToolIds.size > 0) {
+      const toolResults = m.toolResults.filter(r => !droppedToolIds.has(r.toolUseId));
+      if (toolResults.length === 0) return null;
+      if (toolResults.length !== m.toolResults.length) return { ...m, toolResults };
+    }
+    return m;
+  };
+}
@@ -0,0 +1,129 @@
+// Grok Build adapter: session logs under ~/.grok/sessions/**/*.jsonl.
+//
+// Grok Build does not document its on-disk session format. This reads what it writes
+// today: one OpenAI-compatible chat message per line (role user / assistant / tool,
+// `tool_calls` on assistant turns, `tool_call_id` on results, xAI `usage` on the
+// assistant turn that consumed it), optionally wrapped as `{timestamp, message}`.
+// Prompt tokens include cached ones, split out as cache reads like Codex; output is
+// completion plus reasoning tokens. Lines that don't fit are skipped, so a format
+// change shows up as empty Grok sessions rather than wrong numbers.
+
+import { readdirSync } from "node:fs";
+import { join, relative } from "node:path";
+import { planRef } from "./commands.ts";
+import { ERROR_TEXT_CHARS } from "./errors.ts";
+import { blankMessage, callTarget, type Message, type TokenCounts, type ToolCall, type ToolResult, type TranscriptFile } from "./parse.ts";
+import { homeDir } from "./paths.ts";
+import type { RecordNormalizer, SourceAdapter } from "./sources.ts";
+
+const TOOL_NAMES: Record<string, string> = {
+  bash: "Bash",
+  execute_bash: "Bash",
+  view_file: "Read",
+  read_file: "Read",
+  create_file: "Write",
+  str_replace_editor: "Edit",
+  edit_file: "Edit",
+  search: "Grep",
+};
+
+function listSessions(root: string): TranscriptFile[] {
+  const files: TranscriptFile[] = [];
+  const walk = (dir: string) => {
+    let entries;
+    try { entries = readdirSync(dir, { withFileTypes: true }); } catch { return; }
+    for (const e of entries) {
+      if (e.isDirectory()) walk(join(dir, e.name));
+      else if (e.isFile() && e.name.endsWith(".jsonl")) {
+        const path = join(dir, e.name);
+        files.push({ path, sessionId: relative(root, path).replace(/\\/g, "/").replace(/\.jsonl$/, ""), projectDir: "grok", sidechain: false });
+      }
+    }
+  };
+  walk(root);
+  return files;
+}
+
+function grokUsage(u: any): TokenCounts {
+  const prompt = u.prompt_tokens || 0;
+  const cached = u.prompt_tokens_details?.cached_tokens || 0;
+  const completion = u.completion_tokens || 0;
+  // xAI reports reasoning outside completion_tokens; total_tokens covers both.
+  const output = Math.max(completion, (u.total_tokens || 0) - prompt);
+  return { input: Math.max(0, prompt - cached), output, cacheRead: cached, cacheCreate: 0, cacheCreate5m: 0, cacheCreate1h: 0 };
+}
+
+function text(content: unknown): string {
+  return typeof content === "string" ? content : Array.isArray(content) ? content.map((c: any) => c?.text ?? "").join("\n") : "";
+}
+
+function grokNormalizer(): RecordNormalizer {
+  let turn = 0;
+  const callNames = new Map<string, string>();
+  return {
+    push(obj) {
+      const msg = obj?.message ?? obj;
+      const ts: string | null = obj?.timestamp ?? msg?.timestamp ?? null;
+      const base = (type: Message["type"]): Message => ({ ...blankMessage(type, ts), sessionId: obj?.sessionId ?? obj?.session_id ?? null, cwd: obj?.cwd ?? null });
+
+      if (msg?.role === "user") {
+        const m = base("user");
+        const prompt = text(msg.content);
+        const cmd = /^\/([a-zA-Z0-9_:.\-]+)/.exec(prompt.trim());
+        if (cmd) m.commands.push(cmd[1]);
+        m.userPrompt = true;
+        const plan = planRef(prompt);
+        if (plan) m.plans.push(plan);
+        return [m];
+      }
+      if (msg?.role === "assistant") {
+        const m = base("assistant");
+        m.model = msg.model ?? obj?.model ?? null;
+        m.responseKey = (msg.id ?? "grok") + ":" + turn++;
+        if (msg.usage && m.model) m.usage = grokUsage(msg.usage);
+        for (const tc of Array.isArray(msg.tool_calls) ? msg.tool_calls : []) {
+          const rawName: string = tc?.function?.name ?? tc?.name ?? "?";
+          let args: any = tc?.function?.arguments ?? tc?.arguments ?? {};
+          if (typeof args === "string") {
+            try { args = JSON.parse(args); } catch { args = {}; }
+          }
+          const call: ToolCall = { id: tc?.id ?? null, name: TOOL_NAMES[rawName] ?? rawName };
+          const target = callTarget({ ...args, file_path: args.file_path ?? args.path });
+          if (target) call.target = target;
+          if (call.name === "Read" && typeof (args.file_path ?? args.path) === "string") call.filePath = args.file_path ?? args.path;
+          if (call.id) callNames.set(call.id, call.name);
+          m.toolCalls.push(call);
+          const plan = planRef(JSON.stringify(args));
+          if (plan && !m.plans.includes(plan)) m.plans.push(plan);
+        }
+        return [m];
+      }
+      if (msg?.role === "tool" && msg.tool_call_id) {
+        const out = text(msg.content);
+        const exit = /^Exit code:? (\d+)/m.exec(out);
+        const isShell = callNames.get(msg.tool_call_id) === "Bash";
+        const m = base("user");
+        const result: ToolResult = {
+          toolUseId: msg.tool_call_id,
+          isError: msg.is_error === true || (!isShell && /^(error|failed)\b/i.test(out)),
+          exitCodeError: isShell && exit !== null && exit[1] !== "0",
+          interrupted: /^(interrupted|cancelled|aborted)\b/i.test(out),
+          chars: out.length,
+        };
+        if (result.isError || result.exitCodeError) result.errorText = out.slice(0, ERROR_TEXT_CHARS);
+        m.toolResults.push(result);
+        return [m];
+      }
+      return [];
+    },
+    flush: () => [],
+  };
+}
+
+export const grokAdapter: SourceAdapter = {
+  harness: "grok",
+  defaultRoot: () => join(homeDir(), ".grok", "sessions"),
+  listTranscripts: listSessions,
+  normalizer: grokNormalizer,
+  resumable: false,
+};
@@ -0,0 +1,260 @@
+// Persistent transcript index (bun:sqlite) so runs only parse new transcript bytes.
+//
+// One `transcripts` row per log file (harness, path, size, mtime, bytes parsed so far,
+// owning session) and one `messages` row per normalised Message (line byte offset +
+// sequence within the line + Message JSON). Subagent files carry their parent's
+// session_id. Transcripts are append-only, so a grown file is parsed from its stored
+// offset when its adapter is resumable; a shrunk or rewritten one, or one from a
+// stateful adapter (Codex, Grok), is re-parsed from scratch. Rows for transcripts that
+// Claude Code has since cleaned up are kept, so history outlives the 30-day cleanup.
+//
+// The index caches parsed lines only, not results: every run still replays each stored
+// Message through sessionFromGroup to rebuild its SessionStats. Date, model and project
+// filters, the pricing table, --raw and cross-session response dedupe all apply per
+// message, so per-session aggregates keyed by (path, parsed_to) would be valid for one
+// combination of them only. What the index saves is reading and parsing the JSONL.
+//
+// Bump INDEX_SCHEMA_VERSION whenever Message (parse.ts) gains or changes a field:
+// an index with another version is dropped and rebuilt on open.
+
+import { Database } from "bun:sqlite";
+import { closeSync, existsSync, mkdirSync, openSync, readSync, rmSync, statSync } from "node:fs";
+import { dirname, join, resolve } from "node:path";
+import type { Filters } from "./filters.ts";
+import {
+  keepSession,
+  sessionFromGroup,
+  transcriptSessionId,
+  type Harness,
+  type Message,
+  type MessageGroup,
+  type ParseOptions,
+  type SessionStats,
+  type TranscriptFile,
+} from "./parse.ts";
+import { homeDir } from "./paths.ts";
+import type { Source, SourceAdapter } from "./sources.ts";
+
+export const INDEX_SCHEMA_VERSION = 10;
+
+const SCHEMA = `
+CREATE TABLE transcripts (
+  id          INTEGER PRIMARY KEY,
+  path        TEXT    NOT NULL UNIQUE,
+  harness     TEXT    NOT NULL,
+  root        TEXT    NOT NULL,
+  project_dir TEXT    NOT NULL,
+  session_id  TEXT    NOT NULL,
+  sidechain   INTEGER NOT NULL,
+  size        INTEGER NOT NULL,
+  mtime_ms    INTEGER NOT NULL,
+  parsed_to   INTEGER NOT NULL
+);
+CREATE INDEX transcripts_root ON transcripts(root);
+CREATE TABLE messages (
+  transcript_id INTEGER NOT NULL REFERENCES transcripts(id) ON DELETE CASCADE,
+  offset        INTEGER NOT NULL,
+  seq           INTEGER NOT NULL,
+  ts            INTEGER,
+  data          TEXT    NOT NULL,
+  PRIMARY KEY (transcript_id, offset, seq)
+) WITHOUT ROWID;
+CREATE INDEX messages_ts ON messages(ts);
+`;
+
+type TranscriptRow = { id: number; size: number; mtime_ms: number; parsed_to: number };
+
+export type SyncStats = {
+  transcripts: number;
+  updated: number;
+  bytesParsed: number;
+  /** Transcripts that could not be ingested (kept as before, retried on the next sync). */
+  failed: { path: string; error: string }[];
+};
+
+export function defaultIndexPath(): string {
+  return join(homeDir(), ".claude", "token-trend", "index.sqlite");
+}
+
+/** Opens (creating or migrating) the index. `rebuild` discards it first. */
+export function openIndex(path: string, opts: { rebuild?: boolean } = {}): Database {
+  mkdirSync(dirname(path), { recursive: true });
+  if (opts.rebuild) {
+    for (const suffix of ["", "-wal", "-shm"]) rmSync(path + suffix, { force: true });
+  }
+  const db = new Database(path, { create: true });
+  db.exec("PRAGMA journal_mode = WAL; PRAGMA foreign_keys = ON;");
+  const { user_version } = db.query("PRAGMA user_version").get() as { user_version: number };
+  if (user_version !== INDEX_SCHEMA_VERSION) {
+    db.exec("DROP TABLE IF EXISTS messages; DROP TABLE IF EXISTS sessions; DROP TABLE IF EXISTS transcripts;");
+    db.exec(SCHEMA);
+    db.exec(`PRAGMA user_version = ${INDEX_SCHEMA_VERSION}`);
+  }
+  return db;
+}
+
+/**
+ * Opens an existing index without syncing or migrating it, for quick lookups (the
+ * statusline). Null when there is none yet or it was written by another schema version.
+ */
+export function openIndexReadonly(path: string): Database | null {
+  if (!existsSync(path)) return null;
+  try {
+    const db = new Database(path, { readonly: true });
+    const { user_version } = db.query("PRAGMA user_version").get() as { user_version: number };
+    if (user_version === INDEX_SCHEMA_VERSION) return db;
+    db.close();
+  } catch {}
+  return null;
+}
+
+function readFrom(path: string, start: number, end: number): Buffer {
+  const buf = Buffer.alloc(end - start);
+  const fd = openSync(path, "r");
+  try {
+    let read = 0;
+    while (read < buf.length) {
+      const n = readSync(fd, buf, read, buf.length - read, start + read);
+      if (n === 0) break;
+      read += n;
+    }
+    return buf.subarray(0, read);
+  } finally {
+    closeSync(fd);
+  }
+}
+
+/**
+ * Splits a byte range into complete JSONL lines. Returns the byte length consumed:
+ * up to the last newline, or everything when the unterminated tail is already valid JSON.
+ */
+function scanLines(buf: Buffer, onLine: (relOffset: number, line: string) => void): number {
+  let pos = 0;
+  while (pos < buf.length) {
+    const nl = buf.indexOf(0x0a, pos);
+    if (nl === -1) {
+      const tail = buf.toString("utf8", pos);
+      try { JSON.parse(tail); } catch { return pos; }
+      onLine(pos, tail);
+      return buf.length;
+    }
+    onLine(pos, buf.toString("utf8", pos, nl));
+    pos = nl + 1;
+  }
+  return pos;
+}
+
+/** Brings the index up to date with every log file under the sources' roots. */
+export function syncIndex(db: Database, sources: Source[]): SyncStats {
+  const stats: SyncStats = { transcripts: 0, updated: 0, bytesParsed: 0, failed: [] };
+  const selectRow = db.query<TranscriptRow, [string]>("SELECT id, size, mtime_ms, parsed_to FROM transcripts WHERE path = ?");
+  const insertRow = db.query<{ id: number }, [string, string, string, string, string, number]>(
+    "INSERT INTO transcripts (path, harness, root, project_dir, session_id, sidechain, size, mtime_ms, parsed_to) VALUES (?, ?, ?, ?, ?, ?, 0, 0, 0) RETURNING id",
+  );
+  const updateRow = db.query("UPDATE transcripts SET size = ?, mtime_ms = ?, parsed_to = ? WHERE id = ?");
+  const updateSessionId = db.query("UPDATE transcripts SET session_id = ? WHERE id = ?");
+  const clearMessages = db.query("DELETE FROM messages WHERE transcript_id = ?");
+  const insertMessage = db.query("INSERT OR REPLACE INTO messages (transcript_id, offset, seq, ts, data) VALUES (?, ?, ?, ?, ?)");
+
+  const ingestFile = db.transaction((adapter: SourceAdapter, f: TranscriptFile, id: number, start: number, size: number, mtimeMs: number) => {
+    if (start === 0) clearMessages.run(id);
+    const buf = readFrom(f.path, start, size);
+    const normalizer = adapter.normalizer();
+    const withSession: Message[] = [];
+    const insert = (offset: number, messages: Message[]) => {
+      messages.forEach((m, seq) => {
+        if (f.sidechain && withSession.length === 0 && m.sessionId) withSession.push(m);
+        const ts = m.timestamp ? Date.parse(m.timestamp) : NaN;
+        insertMessage.run(id, offset, seq, Number.isNaN(ts) ? null : ts, JSON.stringify(m));
+      });
+    };
+    const consumed = scanLines(buf, (rel, line) => {
+      if (!line.trim()) return;
+      let obj: any;
+      try { obj = JSON.parse(line); } catch { return; }
+      insert(start + rel, normalizer.push(obj));
+    });
+    insert(start + consumed, normalizer.flush());
+    if (withSession.length > 0) updateSessionId.run(transcriptSessionId(f, withSession), id);
+    updateRow.run(buf.length + start, mtimeMs, start + consumed, id);
+    stats.bytesParsed += consumed;
+  });
+
+  for (const { adapter, root: rawRoot } of sources) {
+    if (!existsSync(rawRoot)) continue;
+    const root = resolve(rawRoot);
+    for (const f of adapter.listTranscripts(root)) {
+      let st;
+      try { st = statSync(f.path); } catch { continue; }
+      stats.transcripts++;
+      const size = st.size;
+      const mtimeMs = Math.floor(st.mtimeMs);
+      const row = selectRow.get(f.path);
+      if (row && row.size === size && row.mtime_ms === mtimeMs) continue;
+      const id = row?.id ?? insertRow.get(f.path, adapter.harness, root, f.projectDir, f.sessionId, f.sidechain ? 1 : 0)!.id;
+      // Grown file: resume at the last parsed line. Shrunk or same-size rewrite: start over.
+      const start = adapter.resumable && row && size > row.size && size >= row.parsed_to ? row.parsed_to : 0;
+      try {
+        ingestFile(adapter, f, id, start, size, mtimeMs);
+      } catch (err) {
+        stats.failed.push({ path: f.path, error: (err as Error).message });
+        continue;
+      }
+      stats.updated++;
+    }
+  }
+  return stats;
+}
+
+/**
+ * Messages of every indexed session under the sources' roots, main transcript first,
+ * then its subagent files. Date bounds are applied in SQL; `sessionMatch` limits
+ * which sessions are read.
+ */
+export function* loadMessageGroupsFromIndex(
+  db: Database,
+  sources: Source[],
+  filters: Filters = {},
+  sessionMatch: (sessionId: string) => boolean = () => true,
+): Generator<MessageGroup> {
+  const roots = sources.map(s => resolve(s.root));
+  if (roots.length === 0) return;
+  const transcripts = db
+    .query<{ id: number; session_id: string; project_dir: string; harness: Harness }, string[]>(
+      `SELECT id, session_id, project_dir, harness FROM transcripts WHERE root IN (${roots.map(() => "?").join(", ")})
+        ORDER BY harness, project_dir, session_id, sidechain, id`,
+    )
+    .all(...roots)
+    .filter(t => sessionMatch(t.session_id));
+  const messagesOf = db.query<{ data: string }, [number, number, number]>(
+    `SELECT data FROM messages
+      WHERE transcript_id = ? AND (ts IS NULL OR (ts >= ? AND ts < ?))
+      ORDER BY offset, seq`,
+  );
+  const since = filters.since ?? -8.64e15;
+  const until = filters.until ?? 8.64e15;
+
+  for (let i = 0; i < transcripts.length; ) {
+    const { session_id: sessionId, project_dir: projectDir, harness } = transcripts[i];
+    const messages: Message[] = [];
+    for (
+      ;
+      i < transcripts.length && transcripts[i].session_id === sessionId && transcripts[i].project_dir === projectDir && transcripts[i].harness === harness;
+      i++
+    ) {
+      for (const row of messagesOf.iterate(transcripts[i].id, since, until)) messages.push(JSON.parse(row.data));
+    }
+    yield { sessionId, projectDir, harness, messages };
+  }
+}
+
+/** Rebuilds per-session stats from the index for the sources' roots, applying the filters. */
+export function loadSessionsFromIndex(db: Database, sources: Source[], filters: Filters = {}, opts: ParseOptions = {}): SessionStats[] {
+  const sessions: SessionStats[] = [];
+  const load = { ...opts, responses: opts.responses ?? new Map<string, string>() };
+  for (const g of loadMessageGroupsFromIndex(db, sources, filters)) {
+    const s = sessionFromGroup(g, filters, load);
+    if (keepSession(s, filters)) sessions.push(s);
+  }
+  return sessions;
+}
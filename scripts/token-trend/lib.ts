@@ -0,0 +1,85 @@
+// Library entry point: the public surface hooks, tests and scripts import instead of
+// running the CLI. Nothing here touches disk or prints on import.
+//
+//   parseTranscript(jsonl, sessionId, projectDir)   one Claude Code transcript → SessionStats
+//   loadSessions(sources, filters) / loadSessionsFromIndex(db, ...)   every source on disk
+//   aggregate(sessions, filters)                     SessionStats[] → Report (versioned JSON contract)
+//   render(report, format)                           Report → text, or CSV files by name
+//
+// The other views (timeline, blocks, budgets, comparison, statusline, bundles) follow the
+// same build-then-render split. scripts/token-trend.ts is the CLI over these exports.
+
+import { renderDashboard } from "./dashboard.ts";
+import { renderCsv, renderJson, renderMarkdown, renderTable, type Format } from "./render.ts";
+import type { Report } from "./report.ts";
+import type { SessionTimeline } from "./timeline.ts";
+
+export { buildBlocks, usageEntries, BLOCK_HOURS, type BlockLimits, type BlockRow, type BlocksReport, type UsageEntry } from "./blocks.ts";
+export { checkBudgets, checkSince, loadBudgets, periodEnd, periodStart, userBudgetsPath, type Budget, type BudgetFile, type BudgetStatus, type CheckReport } from "./budgets.ts";
+export { buildBundle, loadSalt, mergeBundles, readBundle, type Bundle, type BundleSession } from "./bundle.ts";
+export { buildComparison, defaultRanges, type Comparison, type DimensionDelta, type MetricDelta } from "./compare.ts";
+export { dashboardSessionIds, renderDashboard } from "./dashboard.ts";
+export { classifyError, ERROR_CATEGORIES, type ErrorCategory, type ErrorWaste } from "./errors.ts";
+export { isoWeekStart, matchesProject, parseDateBound, parseRange, type DateRange, type Filters } from "./filters.ts";
+export { defaultIndexPath, loadMessageGroupsFromIndex, loadSessionsFromIndex, openIndex, openIndexReadonly, syncIndex, type SyncStats } from "./index-db.ts";
+export {
+  addTokens,
+  ingestMessage,
+  newSession,
+  normalizeRecord,
+  normalizeUsage,
+  parseLines,
+  parseTranscript,
+  sessionFromGroup,
+  type Harness,
+  type Message,
+  type MessageGroup,
+  type ParseOptions,
+  type SessionStats,
+  type TokenCounts,
+} from "./parse.ts";
+export { counterfactualCost, defaultPricing, loadPricing, modelKey, priceAt, totalCost, totalTokens, usageCost, type Price, type PricingTable } from "./pricing.ts";
+export {
+  FORMATS,
+  renderBlocks,
+  renderBlocksCsv,
+  renderCheck,
+  renderCheckCsv,
+  renderComparison,
+  renderComparisonCsv,
+  renderStatusline,
+  renderTimeline,
+  renderTimelineCsv,
+  type Format,
+} from "./render.ts";
+export { buildReport as aggregate, isoWeek, REPORT_SCHEMA, REPORT_SCHEMA_VERSION, type Report, type SessionRow } from "./report.ts";
+export { loadMessageGroups, loadSessions, resolveSources, type Source } from "./sources.ts";
+export {
+  parseStatuslineFields,
+  parseStatuslineInput,
+  projectsDirOf,
+  readSessionGroup,
+  statuslineData,
+  STATUSLINE_FIELDS,
+  type StatuslineData,
+  type StatuslineField,
+  type StatuslineInput,
+} from "./statusline.ts";
+export { buildTimeline, type SessionTimeline, type TimelineEvent } from "./timeline.ts";
+
+/**
+ * A report in one of the FORMATS: CSV gives one document per section keyed by file
+ * name, every other format one string. `timelines` are the session drill-downs the
+ * HTML dashboard embeds (see dashboardSessionIds); other formats ignore them.
+ */
+export function render(report: Report, format: "csv"): Map<string, string>;
+export function render(report: Report, format: Exclude<Format, "csv">, timelines?: SessionTimeline[]): string;
+export function render(report: Report, format: Format, timelines: SessionTimeline[] = []): string | Map<string, string> {
+  switch (format) {
+    case "csv": return renderCsv(report);
+    case "json": return renderJson(report);
+    case "markdown": return renderMarkdown(report);
+    case "html": return renderDashboard(report, timelines);
+    case "table": return renderTable(report);
+  }
+}
@@ -0,0 +1,558 @@
+// Transcript parsing: turns Claude Code JSONL transcripts into per-session stats.
+// Each line is first normalised into a compact Message (what the index stores),
+// then folded into SessionStats. Keep both halves in sync when adding fields.
+// Other harnesses (Codex, Grok) normalise into the same Message; see sources.ts.
+
+import { existsSync, readdirSync } from "node:fs";
+import { join } from "node:path";
+import { newSpanTracker, planRef, spanOf, trackPromptSpan, trackSpanAgent, trackSpanResponse, type CommandSpan, type SpanTracker } from "./commands.ts";
+import { newContextStats, trackCompact, trackContextResult, trackContextTurn, type ContextStats } from "./context.ts";
+import { ERROR_TEXT_CHARS, newRetryTracker, trackPrompt, trackResponse, trackResult, type ErrorCategory, type ErrorWaste, type RetryTracker } from "./errors.ts";
+import { matchesHarness, matchesProject, recordFilter, type Filters } from "./filters.ts";
+import { defaultPricing, modelKey, priceAt, usageCost, usageCounterfactual, type PricingTable } from "./pricing.ts";
+import { newHintTracker, skillHints, trackHintRecord, trackHintResponse, type HintTracker, type SkillHintStats } from "./skills.ts";
+
+/** Coding agents whose session logs token-trend reads. */
+export const HARNESSES = ["claude", "codex", "grok"] as const;
+export type Harness = (typeof HARNESSES)[number];
+
+/**
+ * cacheCreate is the total; cacheCreate5m / cacheCreate1h split it by ephemeral tier.
+ * In a Message the split may cover less than the total (older usage objects have none);
+ * addTokens bills the rest at the pricing table's default tier.
+ */
+export type TokenCounts = { input: number; output: number; cacheRead: number; cacheCreate: number; cacheCreate5m: number; cacheCreate1h: number };
+
+/** Per-model usage of a session, priced message by message at the rates in force. */
+export type ModelUsage = TokenCounts & { costUsd: number; counterfactualUsd: number; priced: boolean };
+
+export type ToolCall = {
+  id: string | null;
+  name: string;
+  subagentType?: string;
+  /** Hash of the Agent/Task prompt, matched against the sidechain's first user message. */
+  promptKey?: string;
+  skill?: string;
+  filePath?: string;
+  /** Short description of what the call touched (path, command, pattern), for timelines. */
+  target?: string;
+};
+
+export type ToolResult = {
+  toolUseId: string;
+  isError: boolean;
+  /** Result text has an `Exit code N` line with N != 0 (only meaningful for Bash). */
+  exitCodeError: boolean;
+  interrupted: boolean;
+  /** Length of the result text, in characters. */
+  chars: number;
+  /** toolUseResult.agentId of an Agent/Task result: names the sidechain it spawned. */
+  agentId?: string;
+  /** Start of the result text when isError or exitCodeError, for the error taxonomy (errors.ts). */
+  errorText?: string;
+};
+
+export type Message = {
+  type: "user" | "assistant" | "other";
+  timestamp: string | null;
+  cwd: string | null;
+  /** Session the record belongs to; for subagent files, the parent session. */
+  sessionId: string | null;
+  isSidechain: boolean;
+  agentId: string | null;
+  /** Prompt hash of a sidechain's root user message (parentUuid null). */
+  promptKey: string | null;
+  /** message.id + requestId: shared by every streamed fragment of one API response. */
+  responseKey: string | null;
+  model: string | null;
+  usage: TokenCounts | null;
+  toolCalls: ToolCall[];
+  toolResults: ToolResult[];
+  commands: string[];
+  /** Typed by the user: a prompt or slash command (not a tool result, meta record or command output). */
+  userPrompt: boolean;
+  /** `.claude/plans/{NNN}-{slug}` directories the prompt or the tool calls reference. */
+  plans: string[];
+  /** Skills a hook hinted at (`Skill("name")`) in this user record. */
+  skillHints: string[];
+  /** User turn cut short ("[Request interrupted by user...]"). */
+  interrupted: boolean;
+  /** compact_boundary system record: what triggered it and the context size before. */
+  compact: { trigger: string; preTokens: number | null } | null;
+};
+
+export type SessionStats = {
+  sessionId: string;
+  projectDir: string;
+  harness: Harness;
+  cwd: string | null;
+  /** Who exported the session, when it was read from a bundle (bundle.ts); null for local transcripts. */
+  user: string | null;
+  firstTs: string | null;
+  lastTs: string | null;
+  userMsgs: number;
+  assistantMsgs: number;
+  toolUses: Map<string, number>;
+  agentInvocations: Map<string, number>;
+  skillInvocations: Map<string, number>;
+  /** Hook Skill() hints against main-thread Skill calls, by skill. */
+  skillHintStats: Map<string, SkillHintStats>;
+  hints: HintTracker;
+  slashCommands: Map<string, number>;
+  toolErrorsByTool: Map<string, number>;
+  toolCallsByToolId: Map<string, string>;
+  interruptions: number;
+  fileReads: Map<string, number>;
+  bashExitErrors: number;
+  /** One entry per slash command typed, with what ran until the next prompt. */
+  commandSpans: CommandSpan[];
+  spans: SpanTracker;
+  /** Prompt size, compactions, cache invalidations and large results of the main conversation. */
+  context: ContextStats;
+  /** Failed results and the tokens spent on them and their retries, by category. */
+  errorWaste: Map<ErrorCategory, ErrorWaste>;
+  retries: RetryTracker;
+  modelTokens: Map<string, ModelUsage>;
+  /** Usage already counted per API response, for fragment dedupe. */
+  responseUsage: Map<string, TokenCounts>;
+  /** Assistant records folded into an earlier fragment of the same response. */
+  duplicateFragments: number;
+  /** Assistant records of a response another session of the same load already counted (resumed or forked transcripts). */
+  replayedResponses: number;
+  /** Subagent runs, keyed by agentId (or spawning prompt for legacy in-file sidechains). */
+  sidechains: Map<string, SidechainStats>;
+  /** subagent_type of the spawning Agent call, by agentId / prompt hash / tool_use id. */
+  agentTypeByAgentId: Map<string, string>;
+  agentTypeByPrompt: Map<string, string>;
+  agentTypeByToolId: Map<string, string>;
+  /** Legacy sidechains without agentId: records after a root belong to it. */
+  openSidechain: string | null;
+};
+
+/** Usage of one subagent run. Also included in the session totals. */
+export type SidechainStats = {
+  agentId: string | null;
+  promptKey: string | null;
+  tokens: number;
+  costUsd: number;
+  toolCalls: number;
+  toolErrors: number;
+};
+
+export type ParseOptions = {
+  /** Count every assistant record as its own response (pre-dedupe behaviour). */
+  raw?: boolean;
+  /** Defaults to the bundled table plus the user override file. */
+  pricing?: PricingTable;
+  /**
+   * Session that first counted each response (by responseKey), shared by every session
+   * of one load. A resumed or forked transcript starts with a copy of its parent's
+   * records; those are skipped in whichever of the two is loaded second. Without it,
+   * fragments are only folded within a session.
+   */
+  responses?: Map<string, string>;
+};
+
+/** sidechain: subagent transcript (`agent-*.jsonl`), merged into its parent session. */
+export type TranscriptFile = { path: string; sessionId: string; projectDir: string; sidechain: boolean };
+
+export function newSession(sessionId: string, projectDir: string, harness: Harness = "claude"): SessionStats {
+  return {
+    sessionId,
+    projectDir,
+    harness,
+    cwd: null,
+    user: null,
+    firstTs: null,
+    lastTs: null,
+    userMsgs: 0,
+    assistantMsgs: 0,
+    toolUses: new Map(),
+    agentInvocations: new Map(),
+    skillInvocations: new Map(),
+    skillHintStats: new Map(),
+    hints: newHintTracker(),
+    slashCommands: new Map(),
+    toolErrorsByTool: new Map(),
+    toolCallsByToolId: new Map(),
+    interruptions: 0,
+    fileReads: new Map(),
+    bashExitErrors: 0,
+    commandSpans: [],
+    spans: newSpanTracker(),
+    context: newContextStats(),
+    errorWaste: new Map(),
+    retries: newRetryTracker(),
+    modelTokens: new Map(),
+    responseUsage: new Map(),
+    duplicateFragments: 0,
+    replayedResponses: 0,
+    sidechains: new Map(),
+    agentTypeByAgentId: new Map(),
+    agentTypeByPrompt: new Map(),
+    agentTypeByToolId: new Map(),
+    openSidechain: null,
+  };
+}
+
+function emptyCounts(): TokenCounts {
+  return { input: 0, output: 0, cacheRead: 0, cacheCreate: 0, cacheCreate5m: 0, cacheCreate1h: 0 };
+}
+
+/**
+ * Adds usage and its cost at the message's date; returns the cost added.
+ * Unknown models keep their tokens but cost $0.
+ */
+export function addTokens(s: SessionStats, model: string, raw: TokenCounts, timestamp: string | null, pricing: PricingTable): number {
+  const untiered = Math.max(0, raw.cacheCreate - raw.cacheCreate5m - raw.cacheCreate1h);
+  const usage: TokenCounts = pricing.defaultCacheWriteTier === "1h"
+    ? { ...raw, cacheCreate1h: raw.cacheCreate1h + untiered }
+    : { ...raw, cacheCreate5m: raw.cacheCreate5m + untiered };
+  const m = modelKey(model);
+  const price = priceAt(pricing, model, timestamp);
+  const cur = s.modelTokens.get(m) ?? { ...emptyCounts(), costUsd: 0, counterfactualUsd: 0, priced: price !== null };
+  cur.input += usage.input;
+  cur.output += usage.output;
+  cur.cacheRead += usage.cacheRead;
+  cur.cacheCreate += usage.cacheCreate;
+  cur.cacheCreate5m += usage.cacheCreate5m;
+  cur.cacheCreate1h += usage.cacheCreate1h;
+  const cost = price ? usageCost(price, usage) : 0;
+  cur.costUsd += cost;
+  if (price) cur.counterfactualUsd += usageCounterfactual(price, usage);
+  s.modelTokens.set(m, cur);
+  return cost;
+}
+
+/** Normalises an API usage object, keeping the ephemeral_5m/1h cache-write breakdown when present. */
+export function normalizeUsage(u: any): TokenCounts {
+  const cacheCreate5m = u.cache_creation?.ephemeral_5m_input_tokens || 0;
+  const cacheCreate1h = u.cache_creation?.ephemeral_1h_input_tokens || 0;
+  return {
+    input: u.input_tokens || 0,
+    output: u.output_tokens || 0,
+    cacheRead: u.cache_read_input_tokens || 0,
+    cacheCreate: Math.max(u.cache_creation_input_tokens || 0, cacheCreate5m + cacheCreate1h),
+    cacheCreate5m,
+    cacheCreate1h,
+  };
+}
+
+function promptKey(text: string): string {
+  return Bun.hash(text.trim()).toString(36);
+}
+
+export function callTarget(input: any): string | null {
+  const raw = input?.file_path ?? input?.command ?? input?.pattern ?? input?.url ?? input?.description ?? input?.skill ?? null;
+  if (typeof raw !== "string") return null;
+  const oneLine = raw.replace(/\s+/g, " ").trim();
+  return oneLine.length > 80 ? oneLine.slice(0, 77) + "..." : oneLine;
+}
+
+function blockText(content: any): string {
+  return typeof content === "string" ? content : Array.isArray(content) ? content.map((b: any) => b?.text || "").join("") : "";
+}
+
+/** A Message with nothing but its type and time; adapters fill in the rest. */
+export function blankMessage(type: Message["type"], timestamp: string | null): Message {
+  return {
+    type,
+    timestamp,
+    cwd: null,
+    sessionId: null,
+    isSidechain: false,
+    agentId: null,
+    promptKey: null,
+    responseKey: null,
+    model: null,
+    usage: null,
+    toolCalls: [],
+    toolResults: [],
+    commands: [],
+    userPrompt: false,
+    plans: [],
+    skillHints: [],
+    interrupted: false,
+    compact: null,
+  };
+}
+
+/** User records that carry command output, hook context or notices rather than something the user typed. */
+const NOT_TYPED_RE = /^\s*(<local-command-(stdout|stderr)>|<bash-(stdout|stderr)>|<system-reminder>|<user-prompt-submit-hook>|Caveat: |\[Request interrupted by user)/;
+
+/** Reduces one raw transcript record to the fields the report uses. Null when it carries nothing. */
+export function normalizeRecord(obj: any): Message | null {
+  const type = obj?.type === "user" || obj?.type === "assistant" ? obj.type : "other";
+  if (type === "other" && !obj?.timestamp && !obj?.cwd) return null;
+  const m: Message = {
+    type,
+    timestamp: obj.timestamp ?? null,
+    cwd: obj.cwd ?? null,
+    sessionId: obj.sessionId ?? null,
+    isSidechain: obj.isSidechain === true,
+    agentId: obj.agentId ?? null,
+    promptKey: null,
+    responseKey: null,
+    model: null,
+    usage: null,
+    toolCalls: [],
+    toolResults: [],
+    commands: [],
+    userPrompt: false,
+    plans: [],
+    skillHints: [],
+    interrupted: false,
+    compact: null,
+  };
+
+  if (type === "other" && obj.subtype === "compact_boundary") {
+    m.compact = { trigger: obj.compactMetadata?.trigger ?? "?", preTokens: obj.compactMetadata?.preTokens ?? null };
+  } else if (type === "user") {
+    const content = obj.message?.content;
+    const text = typeof content === "string" ? content : Array.isArray(content) ? content.filter((b: any) => b?.type === "text").map((b: any) => b.text).join("\n") : "";
+    if (m.isSidechain && !obj.parentUuid) {
+      const prompt = typeof content === "string" ? content : text;
+      if (prompt.trim()) m.promptKey = promptKey(prompt);
+    }
+    if (/\[Request interrupted by user/.test(typeof content === "string" ? content : text)) m.interrupted = true;
+    const cmdMatches = text.match(/<command-name>\/?([a-zA-Z0-9_:.\-]+)<\/command-name>/g);
+    if (cmdMatches) {
+      for (const c of cmdMatches) m.commands.push(c.replace(/<\/?command-name>/g, "").replace(/^\//, ""));
+    }
+    const hasResults = Array.isArray(content) && content.some((b: any) => b?.type === "tool_result");
+    m.userPrompt = !m.isSidechain && obj.isMeta !== true && !hasResults && (m.commands.length > 0 || (text.trim() !== "" && !NOT_TYPED_RE.test(text)));
+    const plan = planRef(text);
+    if (plan) m.plans.push(plan);
+    if (!m.isSidechain) m.skillHints = skillHints(text);
+    if (Array.isArray(content)) {
+      for (const block of content) {
+        if (block?.type !== "tool_result") continue;
+        const txt = blockText(block.content);
+        const result: ToolResult = {
+          toolUseId: block.tool_use_id,
+          isError: block.is_error === true,
+          exitCodeError: /^Exit code [1-9]/m.test(txt),
+          interrupted: /<interrupted/i.test(txt),
+          chars: txt.length,
+        };
+        if (result.isError || result.exitCodeError) result.errorText = txt.slice(0, ERROR_TEXT_CHARS);
+        if (typeof obj.toolUseResult?.agentId === "string") result.agentId = obj.toolUseResult.agentId;
+        m.toolResults.push(result);
+      }
+    }
+  } else if (type === "assistant") {
+    const msg = obj.message;
+    m.model = msg?.model ?? null;
+    if (msg?.id) m.responseKey = msg.id + ":" + (obj.requestId ?? "");
+    if (msg?.usage && msg?.model) m.usage = normalizeUsage(msg.usage);
+    if (Array.isArray(msg?.content)) {
+      for (const block of msg.content) {
+        if (block?.type !== "tool_use" || !block.name) continue;
+        const call: ToolCall = { id: block.id ?? null, name: block.name };
+        const target = callTarget(block.input);
+        if (target) call.target = target;
+        if ((block.name === "Agent" || block.name === "Task") && block.input?.subagent_type) {
+          call.subagentType = block.input.subagent_type;
+          if (typeof block.input.prompt === "string") call.promptKey = promptKey(block.input.prompt);
+        } else if (block.name === "Skill" && block.input?.skill) call.skill = block.input.skill;
+        else if (block.name === "Read" && block.input?.file_path) call.filePath = block.input.file_path;
+        m.toolCalls.push(call);
+        const plan = planRef(JSON.stringify(block.input ?? {}));
+        if (plan && !m.plans.includes(plan)) m.plans.push(plan);
+      }
+    }
+  }
+  return m;
+}
+
+/**
+ * Claude Code writes one transcript line per content block of a streamed response,
+ * each repeating the response usage. Returns the usage still to be counted for this
+ * fragment (the growth over what earlier fragments reported), or null for the first.
+ */
+function fragmentDelta(s: SessionStats, key: string, usage: TokenCounts): TokenCounts | null {
+  const seen = s.responseUsage.get(key);
+  if (!seen) {
+    s.responseUsage.set(key, { ...usage });
+    return null;
+  }
+  const delta = emptyCounts();
+  for (const k of Object.keys(delta) as (keyof TokenCounts)[]) {
+    delta[k] = Math.max(0, usage[k] - seen[k]);
+    seen[k] = Math.max(seen[k], usage[k]);
+  }
+  return delta;
+}
+
+function sidechainFor(s: SessionStats, m: Message): SidechainStats {
+  let key = m.agentId;
+  if (!key) {
+    if (m.promptKey) s.openSidechain = "prompt:" + m.promptKey;
+    key = s.openSidechain ?? "prompt:?";
+  }
+  const chain = s.sidechains.get(key) ?? { agentId: m.agentId, promptKey: null, tokens: 0, costUsd: 0, toolCalls: 0, toolErrors: 0 };
+  if (m.promptKey && !chain.promptKey) chain.promptKey = m.promptKey;
+  s.sidechains.set(key, chain);
+  return chain;
+}
+
+function usageTokens(t: TokenCounts): number {
+  return t.input + t.output + t.cacheRead + t.cacheCreate;
+}
+
+/** Folds one normalised message into the session stats. */
+export function ingestMessage(s: SessionStats, m: Message, opts: ParseOptions = {}) {
+  const pricing = opts.pricing ?? defaultPricing();
+  if (m.timestamp) {
+    if (!s.firstTs || m.timestamp < s.firstTs) s.firstTs = m.timestamp;
+    if (!s.lastTs || m.timestamp > s.lastTs) s.lastTs = m.timestamp;
+  }
+  if (m.cwd && !s.cwd) s.cwd = m.cwd;
+  const chain = m.isSidechain && m.type !== "other" ? sidechainFor(s, m) : null;
+  if (m.compact && !m.isSidechain) trackCompact(s.context, m);
+
+  if (m.type === "user") {
+    s.userMsgs++;
+    for (const name of m.commands) s.slashCommands.set(name, (s.slashCommands.get(name) ?? 0) + 1);
+    if (!m.isSidechain) trackHintRecord(s.hints, m);
+    if (m.userPrompt) {
+      trackPrompt(s.retries);
+      trackPromptSpan(s.spans, s.commandSpans, m);
+    }
+    const span = spanOf(s.spans, m, chain);
+    // Tool error detection
+    for (const r of m.toolResults) {
+      const toolName = s.toolCallsByToolId.get(r.toolUseId) ?? "?";
+      if (r.isError) {
+        s.toolErrorsByTool.set(toolName, (s.toolErrorsByTool.get(toolName) ?? 0) + 1);
+      } else if (toolName === "Bash" && r.exitCodeError) {
+        s.bashExitErrors++;
+      }
+      if (r.interrupted) s.interruptions++;
+      if (!m.isSidechain) trackContextResult(s.context, toolName, r);
+      if (r.isError && chain) chain.toolErrors++;
+      if (trackResult(s.retries, s.errorWaste, r, pricing) && span) span.errors++;
+      if (r.agentId) trackSpanAgent(s.spans, r.toolUseId, r.agentId);
+      const spawnedType = s.agentTypeByToolId.get(r.toolUseId);
+      if (r.agentId && spawnedType) s.agentTypeByAgentId.set(r.agentId, spawnedType);
+    }
+  } else if (m.type === "assistant") {
+    if (!opts.raw && m.responseKey && opts.responses) {
+      const owner = opts.responses.get(m.responseKey);
+      if (owner === undefined) opts.responses.set(m.responseKey, s.sessionId);
+      else if (owner !== s.sessionId) { s.replayedResponses++; return; }
+    }
+    const isFragment = !opts.raw && m.responseKey !== null && s.responseUsage.has(m.responseKey);
+    let added: TokenCounts | null = null;
+    let cost = 0;
+    const { usage, model } = m;
+    if (isFragment) {
+      s.duplicateFragments++;
+      const uncounted = usageTokens(s.responseUsage.get(m.responseKey!)!) === 0;
+      const delta = usage && model ? fragmentDelta(s, m.responseKey!, usage) : null;
+      if (delta && usage && model) {
+        added = delta;
+        cost = addTokens(s, model, delta, m.timestamp, pricing);
+        // The first fragment carried no usage, so this one is the turn's context snapshot.
+        if (uncounted && !m.isSidechain) trackContextTurn(s.context, usage, cost);
+      }
+    } else {
+      s.assistantMsgs++;
+      // Registered even without usage, so the response's later fragments are still recognised.
+      if (!opts.raw && m.responseKey) fragmentDelta(s, m.responseKey, usage && model ? usage : emptyCounts());
+      if (usage && model) {
+        added = usage;
+        cost = addTokens(s, model, usage, m.timestamp, pricing);
+        if (!m.isSidechain) trackContextTurn(s.context, usage, cost);
+      }
+    }
+    if (added && chain) { chain.tokens += usageTokens(added); chain.costUsd += cost; }
+    trackResponse(s.retries, m, added ? usageTokens(added) : 0, cost);
+    if (!m.isSidechain) trackHintResponse(s.hints, s.skillHintStats, m);
+    const span = spanOf(s.spans, m, chain);
+    if (span) trackSpanResponse(s.spans, span, m, added ? usageTokens(added) : 0, cost, isFragment);
+    if (chain) chain.toolCalls += m.toolCalls.length;
+    for (const call of m.toolCalls) {
+      s.toolUses.set(call.name, (s.toolUses.get(call.name) ?? 0) + 1);
+      if (call.id) s.toolCallsByToolId.set(call.id, call.name);
+      if (call.subagentType) {
+        s.agentInvocations.set(call.subagentType, (s.agentInvocations.get(call.subagentType) ?? 0) + 1);
+        if (call.id) s.agentTypeByToolId.set(call.id, call.subagentType);
+        if (call.promptKey) s.agentTypeByPrompt.set(call.promptKey, call.subagentType);
+      } else if (call.skill) s.skillInvocations.set(call.skill, (s.skillInvocations.get(call.skill) ?? 0) + 1);
+      else if (call.filePath) s.fileReads.set(call.filePath, (s.fileReads.get(call.filePath) ?? 0) + 1);
+    }
+  }
+}
+
+/** Parses JSONL text into normalised messages; malformed lines are skipped. */
+export function parseLines(content: string): Message[] {
+  const out: Message[] = [];
+  for (const line of content.split("\n")) {
+    if (!line.trim()) continue;
+    let obj: any;
+    try { obj = JSON.parse(line); } catch { continue; }
+    const m = normalizeRecord(obj);
+    if (m) out.push(m);
+  }
+  return out;
+}
+
+/** All messages of one session: main transcript first, then its subagent files. */
+export type MessageGroup = { sessionId: string; projectDir: string; harness: Harness; messages: Message[] };
+
+/** Builds session stats from a session's messages in transcript order, skipping those rejected by the filters. */
+export function sessionFromGroup(g: MessageGroup, filters: Filters = {}, opts: ParseOptions = {}): SessionStats {
+  const s = newSession(g.sessionId, g.projectDir, g.harness);
+  const keep = recordFilter(filters);
+  for (const m of g.messages) {
+    const kept = keep(m);
+    if (kept) ingestMessage(s, kept, opts);
+  }
+  return s;
+}
+
+/** Stats of one Claude Code transcript given as JSONL text. */
+export function parseTranscript(content: string, sessionId: string, projectDir: string, filters: Filters = {}, opts: ParseOptions = {}): SessionStats {
+  return sessionFromGroup({ sessionId, projectDir, harness: "claude", messages: parseLines(content) }, filters, opts);
+}
+
+/** False for sessions left empty by the filters (or with no assistant turn of the filtered model). */
+export function keepSession(s: SessionStats, filters: Filters): boolean {
+  if (s.userMsgs + s.assistantMsgs === 0) return false;
+  if (filters.model && s.assistantMsgs === 0) return false;
+  if (filters.project && !matchesProject(s, filters.project)) return false;
+  if (filters.harness && !matchesHarness(s.harness, filters.harness)) return false;
+  return true;
+}
+
+/**
+ * Every transcript under the projects dir: `<project>/<session>.jsonl`, legacy
+ * `<project>/agent-*.jsonl` subagent files and `<project>/<session>/subagents/*.jsonl`.
+ */
+export function listTranscripts(projectsDir: string): TranscriptFile[] {
+  const files: TranscriptFile[] = [];
+  for (const projDir of readdirSync(projectsDir, { withFileTypes: true })) {
+    if (!projDir.isDirectory()) continue;
+    const full = join(projectsDir, projDir.name);
+    for (const entry of readdirSync(full, { withFileTypes: true })) {
+      if (entry.isFile() && entry.name.endsWith(".jsonl")) {
+        const sessionId = entry.name.replace(/\.jsonl$/, "");
+        files.push({ path: join(full, entry.name), sessionId, projectDir: projDir.name, sidechain: sessionId.startsWith("agent-") });
+      } else if (entry.isDirectory()) {
+        const subDir = join(full, entry.name, "subagents");
+        if (!existsSync(subDir)) continue;
+        for (const f of readdirSync(subDir)) {
+          if (f.endsWith(".jsonl")) files.push({ path: join(subDir, f), sessionId: entry.name, projectDir: projDir.name, sidechain: true });
+        }
+      }
+    }
+  }
+  return files;
+}
+
+/** Parent session of a subagent file: the sessionId its records carry, else the file's own. */
+export function transcriptSessionId(f: TranscriptFile, messages: Message[]): string {
+  if (!f.sidechain) return f.sessionId;
+  return messages.find(m => m.sessionId)?.sessionId ?? f.sessionId;
+}
@@ -0,0 +1,7 @@
+// Per-user locations. Imports nothing from token-trend, so every module (the source
+// adapters that sources.ts itself loads included) can use it without an import cycle.
+
+/** USERPROFILE on Windows, HOME elsewhere. */
+export function homeDir(): string {
+  return process.env.USERPROFILE || process.env.HOME!;
+}
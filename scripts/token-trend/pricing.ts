@@ -0,0 +1,111 @@
+// Model pricing and per-session cost helpers.
+//
+// Rates live in pricing.json (USD per 1M tokens), one list of dated periods per model
+// key: a message is priced with the latest period whose `from` is on or before its
+// timestamp (the earliest period covers anything older). A user file — `--pricing`,
+// else ~/.claude/token-trend/pricing.json when present — replaces the bundled
+// periods of every model key it lists and can add new keys. OpenAI and xAI models
+// (Codex, Grok) carry cacheWrite rates equal to input: those APIs bill no cache writes.
+
+import { existsSync, readFileSync } from "node:fs";
+import { join } from "node:path";
+import type { SessionStats, TokenCounts } from "./parse.ts";
+import { homeDir } from "./paths.ts";
+
+export const PRICING_FILE_VERSION = 1;
+
+export type Price = { from: string; input: number; output: number; cacheRead: number; cacheWrite5m: number; cacheWrite1h: number };
+export type CacheWriteTier = "5m" | "1h";
+
+export type PricingTable = {
+  version: number;
+  /** Tier billed for cache writes whose usage has no ephemeral_5m/1h breakdown. */
+  defaultCacheWriteTier: CacheWriteTier;
+  /** Periods sorted by `from`, ascending. */
+  models: Record<string, Price[]>;
+};
+
+export const BUNDLED_PRICING_PATH = join(import.meta.dir, "pricing.json");
+
+export function userPricingPath(): string {
+  return join(homeDir(), ".claude", "token-trend", "pricing.json");
+}
+
+function readPricingFile(path: string): PricingTable {
+  const raw = JSON.parse(readFileSync(path, "utf8"));
+  if (raw?.version !== PRICING_FILE_VERSION) {
+    throw new Error(`${path}: unsupported pricing file version ${raw?.version} (expected ${PRICING_FILE_VERSION})`);
+  }
+  const models: Record<string, Price[]> = {};
+  for (const [key, periods] of Object.entries(raw.models ?? {})) {
+    if (!Array.isArray(periods) || periods.length === 0) throw new Error(`${path}: model "${key}" needs at least one price period`);
+    for (const p of periods as Price[]) {
+      for (const field of ["input", "output", "cacheRead", "cacheWrite5m", "cacheWrite1h"] as const) {
+        if (typeof p[field] !== "number") throw new Error(`${path}: model "${key}" period ${p.from ?? "?"} lacks numeric "${field}"`);
+      }
+      if (!/^\d{4}-\d{2}-\d{2}/.test(p.from ?? "")) throw new Error(`${path}: model "${key}" has a period without a valid "from" date`);
+    }
+    models[key] = [...(periods as Price[])].sort((a, b) => a.from.localeCompare(b.from));
+  }
+  return { version: raw.version, defaultCacheWriteTier: raw.defaultCacheWriteTier === "1h" ? "1h" : "5m", models };
+}
+
+/** Bundled table, overlaid with the user file (explicit path, else the default location if it exists). */
+export function loadPricing(overridePath?: string): PricingTable {
+  const table = readPricingFile(BUNDLED_PRICING_PATH);
+  const userPath = overridePath ?? (existsSync(userPricingPath()) ? userPricingPath() : undefined);
+  if (!userPath) return table;
+  const user = readPricingFile(userPath);
+  return { version: table.version, defaultCacheWriteTier: user.defaultCacheWriteTier, models: { ...table.models, ...user.models } };
+}
+
+export function modelKey(rawModel: string): string {
+  return rawModel.replace(/-2\d{7}.*$/, "").replace(/-2026\d{4}.*$/, "");
+}
+
+/** Price in force for the model at the given time, or null when the model key has no entry. */
+export function priceAt(table: PricingTable, model: string, timestamp: string | null): Price | null {
+  const periods = table.models[modelKey(model)];
+  if (!periods) return null;
+  if (!timestamp) return periods[periods.length - 1];
+  const day = timestamp.slice(0, 10);
+  let price = periods[0];
+  for (const p of periods) if (p.from <= day) price = p;
+  return price;
+}
+
+export function usageCost(p: Price, t: TokenCounts): number {
+  return (t.input * p.input + t.output * p.output + t.cacheRead * p.cacheRead + t.cacheCreate5m * p.cacheWrite5m + t.cacheCreate1h * p.cacheWrite1h) / 1_000_000;
+}
+
+/** What the usage would have cost without cache (cache_read + cache_create treated as plain input). */
+export function usageCounterfactual(p: Price, t: TokenCounts): number {
+  const inputEquiv = t.input + t.cacheRead + t.cacheCreate;
+  return (inputEquiv * p.input + t.output * p.output) / 1_000_000;
+}
+
+export function totalCost(s: SessionStats): number {
+  let cost = 0;
+  for (const t of s.modelTokens.values()) cost += t.costUsd;
+  return cost;
+}
+
+export function totalTokens(s: SessionStats): number {
+  let total = 0;
+  for (const t of s.modelTokens.values()) total += t.input + t.output + t.cacheRead + t.cacheCreate;
+  return total;
+}
+
+export function counterfactualCost(s: SessionStats): number {
+  let cost = 0;
+  for (const t of s.modelTokens.values()) cost += t.counterfactualUsd;
+  return cost;
+}
+
+let defaultTable: PricingTable | null = null;
+
+/** loadPricing() with no explicit override, read once. */
+export function defaultPricing(): PricingTable {
+  defaultTable ??= loadPricing();
+  return defaultTable;
+}
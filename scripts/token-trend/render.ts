@@ -0,0 +1,831 @@
+// Renderers: console table (default), Markdown, HTML, JSON and CSV views of a Report
+// (and of the session timeline, 5-hour blocks, budget check, period comparison and
+// the one-line statusline).
+// Table, Markdown and HTML share the same human-facing sections (the report's HTML
+// page adds charts and timelines on top, see dashboard.ts); JSON and CSV expose the
+// raw report fields with stable machine keys so column labels can change freely.
+
+import type { BlocksReport } from "./blocks.ts";
+import type { CheckReport } from "./budgets.ts";
+import type { Comparison, Delta, Dimension, DimensionDelta, MetricDelta, MetricKey } from "./compare.ts";
+import type { ErrorCategory } from "./errors.ts";
+import { modelKey } from "./pricing.ts";
+import { UNLINKED_SUBAGENT, type Report, type SessionRow } from "./report.ts";
+import type { StatuslineData, StatuslineField } from "./statusline.ts";
+import type { SessionTimeline } from "./timeline.ts";
+
+export const FORMATS = ["table", "json", "csv", "markdown", "html"] as const;
+export type Format = (typeof FORMATS)[number];
+
+export type Cell = string | number;
+type Align = "l" | "r";
+export type Section = {
+  title: string;
+  level: 2 | 3;
+  /** "kv": label/value pairs without header. "table": rows[0] is the header. */
+  kind: "kv" | "table";
+  rows: Cell[][];
+  align?: Align[];
+  /** Printed instead of the table when it has no data rows. */
+  empty?: string;
+};
+
+export function fmt(n: number): string { return n.toLocaleString("es-ES"); }
+export function pct(n: number, total: number): string { return total > 0 ? ((n / total) * 100).toFixed(1) + "%" : "0%"; }
+export function usd(n: number): string { return "$" + n.toFixed(2); }
+
+/** Subagent type as the human-facing views print it; JSON and CSV keep UNLINKED_SUBAGENT. */
+function subagentLabel(type: string): string { return type === UNLINKED_SUBAGENT ? "(sin vincular)" : type; }
+
+export function printTable(rows: Cell[][], align: Align[] = []): string {
+  const str = rows.map(r => r.map(c => String(c)));
+  const widths = str[0].map((_, i) => Math.max(...str.map(r => (r[i] ?? "").length)));
+  return str
+    .map(row => row.map((c, i) => (align[i] === "l" ? c.padEnd(widths[i]) : c.padStart(widths[i]))).join("  "))
+    .join("\n");
+}
+
+export function shortProject(p: string): string {
+  return p.split(/[\\/]/).pop() || "?";
+}
+
+function countSection(title: string, label: string, countLabel: string, rows: { name: string; count: number }[], empty: string, prefix = ""): Section {
+  const total = rows.reduce((a, r) => a + r.count, 0);
+  const out: Cell[][] = [[label, countLabel, "%"]];
+  for (const r of rows) out.push([prefix + r.name, fmt(r.count), pct(r.count, total)]);
+  out.push(["TOTAL", fmt(total), "100%"]);
+  return { title, level: 2, kind: "table", rows: out, align: ["l"], empty: rows.length === 0 ? empty : undefined };
+}
+
+export const ERROR_CATEGORY_LABELS: Record<ErrorCategory, string> = {
+  edit_string_not_found: "Edit: texto no encontrado",
+  file_not_found: "Fichero no encontrado",
+  permission_denied: "Permiso denegado",
+  hook_blocked: "Bloqueado por hook",
+  timeout: "Timeout",
+  user_rejected: "Rechazado por el usuario",
+  interrupted: "Interrumpido",
+  command_failure: "Comando fallido (exit != 0)",
+  other: "Otros",
+};
+
+export function sections(r: Report): Section[] {
+  const s = r.summary;
+  const totalMsgs = s.userMsgs + s.assistantMsgs;
+  const e = r.errors;
+  const out: Section[] = [];
+
+  const f = r.filters;
+  const activeFilters = [
+    f.since && "desde " + f.since.slice(0, 16).replace("T", " "),
+    f.until && "hasta " + f.until.slice(0, 16).replace("T", " "),
+    f.project && "proyecto " + f.project,
+    f.model && "modelo " + f.model,
+    f.harness && "harness " + f.harness,
+  ].filter(Boolean);
+  // Harness columns only once more than one harness contributed; user columns in merged reports.
+  const multiHarness = r.byHarness.length > 1;
+  const multiUser = r.byUser.length > 0;
+  const sessionAlign: Align[] = ["l", ...(multiHarness ? ["l" as const] : []), ...(multiUser ? ["l" as const] : [])];
+
+  out.push({
+    title: "1. Resumen ejecutivo",
+    level: 2,
+    kind: "kv",
+    align: ["l", "l"],
+    rows: [
+      ...(activeFilters.length > 0 ? [["Filtros", activeFilters.join(", ")]] : []),
+      ["Periodo cubierto",       (r.period.from ?? "n/a") + " → " + (r.period.to ?? "n/a")],
+      ["Sesiones",               fmt(s.sessions)],
+      ["Mensajes (user)",        fmt(s.userMsgs)],
+      ["Mensajes (assistant)",   fmt(s.assistantMsgs)],
+      ["Tokens totales",         fmt(s.tokens)],
+      ["  - Input fresh",        fmt(s.input) + "  (" + pct(s.input, s.tokens) + ")"],
+      ["  - Cache read",         fmt(s.cacheRead) + "  (" + pct(s.cacheRead, s.tokens) + ")"],
+      ["  - Cache create",       fmt(s.cacheCreate) + "  (" + pct(s.cacheCreate, s.tokens) + ")"],
+      ["  - Output",             fmt(s.output) + "  (" + pct(s.output, s.tokens) + ")"],
+      ["Coste USD equiv. API",   usd(s.costUsd)],
+      ["Sin cache costaría",     usd(s.counterfactualCostUsd)],
+      ["Ahorro por cache",       usd(s.cacheSavingsUsd) + "  (" + pct(s.cacheSavingsUsd, s.counterfactualCostUsd) + ")"],
+      ["Avg tokens / sesión",    s.sessions > 0 ? fmt(Math.round(s.tokens / s.sessions)) : "n/a"],
+      ["Avg tokens / msg",       totalMsgs > 0 ? fmt(Math.round(s.tokens / totalMsgs)) : "n/a"],
+      ["Avg msgs / sesión",      s.sessions > 0 ? (totalMsgs / s.sessions).toFixed(1) : "n/a"],
+      ["Fragmentos duplicados",  r.diagnostics.raw ? "sin deduplicar (--raw)" : fmt(r.diagnostics.duplicateAssistantRecords) + " colapsados"],
+      ["Respuestas reanudadas",  r.diagnostics.raw ? "sin deduplicar (--raw)" : fmt(r.diagnostics.replayedAssistantRecords) + " ya contadas en otra sesión"],
+    ],
+  });
+
+  if (multiHarness) {
+    const hRows: Cell[][] = [["Harness", "Sesiones", "User msgs", "Asst msgs", "Tokens", "Tool calls", "Errores", "% gasto", "USD"]];
+    for (const h of r.byHarness) {
+      hRows.push([h.harness, fmt(h.sessions), fmt(h.userMsgs), fmt(h.assistantMsgs), fmt(h.tokens), fmt(h.toolCalls), fmt(h.toolErrors), pct(h.costUsd, s.costUsd), usd(h.costUsd)]);
+    }
+    out.push({ title: "Por harness", level: 3, kind: "table", rows: hRows, align: ["l"] });
+  }
+
+  const modelRows: Cell[][] = [["Modelo", "Sesiones", "Input", "Cache R", "Cache C", "Output", "Tokens", "% gasto", "USD"]];
+  for (const m of r.byModel) {
+    modelRows.push([m.model, m.sessions, fmt(m.input), fmt(m.cacheRead), fmt(m.cacheCreate), fmt(m.output), fmt(m.tokens), pct(m.costUsd, s.costUsd), usd(m.costUsd)]);
+  }
+  out.push({ title: "2. Distribución por modelo", level: 2, kind: "table", rows: modelRows, align: ["l"] });
+
+  if (r.unpricedModels.length > 0) {
+    const upRows: Cell[][] = [["Modelo", "Sesiones", "Tokens"]];
+    for (const m of r.unpricedModels) upRows.push([m.model, m.sessions, fmt(m.tokens)]);
+    out.push({ title: "Modelos sin tarifa (coste contado como $0)", level: 3, kind: "table", rows: upRows, align: ["l"] });
+  }
+
+  const projRows: Cell[][] = [["Proyecto", ...(multiHarness ? ["Harness"] : []), "Sess", "User msgs", "Asst msgs", "Tokens", "% gasto", "USD"]];
+  for (const p of r.byProject.slice(0, 10)) {
+    const short = p.project.length > 50 ? "..." + p.project.slice(-47) : p.project;
+    projRows.push([short, ...(multiHarness ? [p.harnesses.join(", ")] : []), p.sessions, fmt(p.userMsgs), fmt(p.assistantMsgs), fmt(p.tokens), pct(p.costUsd, s.costUsd), usd(p.costUsd)]);
+  }
+  out.push({ title: "3. Top 10 proyectos por gasto", level: 2, kind: "table", rows: projRows, align: multiHarness ? ["l", "l"] : ["l"] });
+
+  const weekRows: Cell[][] = [["Semana", "Sess", "User", "Asst", "Tokens", "Tok/msg", "Cache%", "USD"]];
+  for (const w of r.byWeek) {
+    const msgs = w.userMsgs + w.assistantMsgs;
+    weekRows.push([w.week, w.sessions, fmt(w.userMsgs), fmt(w.assistantMsgs), fmt(w.tokens), msgs > 0 ? fmt(Math.round(w.tokens / msgs)) : "n/a", pct(w.cacheRead, w.tokens), usd(w.costUsd)]);
+  }
+  out.push({ title: "4. Tendencia semanal", level: 2, kind: "table", rows: weekRows, align: ["l"] });
+
+  // Top 15 tools, but the TOTAL row and percentages cover every tool.
+  const toolTotal = r.tools.reduce((a, t) => a + t.count, 0);
+  const toolRows: Cell[][] = [["Tool", "Llamadas", "%"]];
+  for (const t of r.tools.slice(0, 15)) toolRows.push([t.name, fmt(t.count), pct(t.count, toolTotal)]);
+  toolRows.push(["TOTAL", fmt(toolTotal), "100%"]);
+  out.push({ title: "5. Top 15 tool uses", level: 2, kind: "table", rows: toolRows, align: ["l"] });
+
+  const agentCount = r.subagents.reduce((a, x) => a + x.invocations, 0);
+  const agentRows: Cell[][] = [["Subagent", "Invocaciones", "%", "Runs", "Tokens", "USD", "USD/invoc.", "Tool calls", "Errores"]];
+  for (const a of r.subagents) {
+    agentRows.push([
+      subagentLabel(a.subagentType),
+      fmt(a.invocations),
+      pct(a.invocations, agentCount),
+      fmt(a.runs),
+      fmt(a.tokens),
+      usd(a.costUsd),
+      a.costPerInvocationUsd === null ? "n/a" : usd(a.costPerInvocationUsd),
+      fmt(a.toolCalls),
+      fmt(a.toolErrors),
+    ]);
+  }
+  const agentCost = r.subagents.reduce((a, x) => a + x.costUsd, 0);
+  agentRows.push(["TOTAL", fmt(agentCount), "100%", fmt(r.subagents.reduce((a, x) => a + x.runs, 0)), fmt(r.subagents.reduce((a, x) => a + x.tokens, 0)), usd(agentCost), "", "", ""]);
+  out.push({ title: "6. Subagentes invocados", level: 2, kind: "table", rows: agentRows, align: ["l"], empty: r.subagents.length === 0 ? "(ningún subagente invocado)" : undefined });
+
+  const ranked = r.subagents.filter(a => a.costPerInvocationUsd !== null).sort((a, b) => b.costPerInvocationUsd! - a.costPerInvocationUsd!);
+  if (ranked.length > 0) {
+    const rankRows: Cell[][] = [["#", "Subagent", "USD/invoc.", "Tokens/invoc.", "% del gasto total"]];
+    ranked.forEach((a, i) => rankRows.push([i + 1, a.subagentType, usd(a.costPerInvocationUsd!), fmt(Math.round(a.tokens / a.invocations)), pct(a.costUsd, s.costUsd)]));
+    out.push({ title: "Coste por invocación", level: 3, kind: "table", rows: rankRows, align: ["r", "l"] });
+  }
+  out.push(countSection("7. Skills invocadas", "Skill", "Invocaciones", r.skills, "(ninguna skill invocada)"));
+  if (r.skillHints.length > 0) {
+    const ratio = (n: number | null) => (n === null ? "—" : (n * 100).toFixed(1) + "%");
+    const hRows: Cell[][] = [["Skill", "Hints", "Seguidos", "Invocaciones", "Con hint", "Sin hint", "Precisión", "Recall"]];
+    for (const h of r.skillHints) {
+      hRows.push([h.skill, fmt(h.hinted), fmt(h.followed), fmt(h.invoked), fmt(h.invokedAfterHint), fmt(h.invokedWithoutHint), ratio(h.precision), ratio(h.recall)]);
+    }
+    out.push({ title: "Efectividad de los hints de skill-activation", level: 3, kind: "table", rows: hRows, align: ["l"] });
+  }
+  out.push(countSection("8. Slash commands lanzados", "Comando", "Veces", r.commands, "(ningún slash command detectado)", "/"));
+  if (r.commandCosts.length > 0) {
+    const ccRows: Cell[][] = [["Comando", "Usos", "Turnos", "Tokens", "USD", "USD/uso", "Tool calls", "Subagents", "Errores", "% gasto"]];
+    for (const c of r.commandCosts) {
+      ccRows.push(["/" + c.command, fmt(c.invocations), fmt(c.turns), fmt(c.tokens), usd(c.costUsd), usd(c.costPerUseUsd), fmt(c.toolCalls), fmt(c.subagents), fmt(c.errors), pct(c.costUsd, s.costUsd)]);
+    }
+    out.push({ title: "Coste por slash command (hasta el siguiente prompt)", level: 3, kind: "table", rows: ccRows, align: ["l"] });
+  }
+  if (r.flowPlans.length > 0) {
+    const fpRows: Cell[][] = [["Plan", "Runs", "Sesiones", "Tokens", "USD", "Tool calls", "Subagents", "Errores", "Primer run", "Último run"]];
+    for (const p of r.flowPlans) {
+      fpRows.push([p.plan ?? "(sin plan)", fmt(p.runs), fmt(p.sessions), fmt(p.tokens), usd(p.costUsd), fmt(p.toolCalls), fmt(p.subagents), fmt(p.errors), (p.firstRunTs ?? "").slice(0, 10), (p.lastRunTs ?? "").slice(0, 10)]);
+    }
+    out.push({ title: "/flow por plan", level: 3, kind: "table", rows: fpRows, align: ["l"] });
+  }
+
+  out.push({
+    title: "9. Errores y desperdicio de tokens",
+    level: 2,
+    kind: "kv",
+    align: ["l", "l"],
+    rows: [
+      ["Tool calls totales",        fmt(e.toolCalls)],
+      ["Tool errors (is_error=true)", fmt(e.toolErrors) + "  (" + pct(e.toolErrors, e.toolCalls) + ")"],
+      ["Bash con exit code != 0",   fmt(e.bashExitErrors)],
+      ["Mensajes interrumpidos",    fmt(e.interruptions)],
+      ["Re-lecturas mismo file (>1x)", fmt(e.reReads)],
+      ["Bucles de reintento",       fmt(e.retryLoops) + "  (" + fmt(e.retries) + " reintentos)"],
+      ["Desperdicio medido",        usd(e.wasteUsd) + "  (" + fmt(e.wasteTokens) + " tokens, " + pct(e.wasteUsd, s.costUsd) + " del coste)"],
+    ],
+  });
+
+  const catRows: Cell[][] = [["Categoría", "Errores", "Bucles", "Reintentos", "Tokens", "USD"]];
+  for (const c of e.byCategory) catRows.push([ERROR_CATEGORY_LABELS[c.category], fmt(c.errors), fmt(c.retryLoops), fmt(c.retries), fmt(c.tokens), usd(c.costUsd)]);
+  out.push({ title: "Errores por categoría", level: 3, kind: "table", rows: catRows, align: ["l"], empty: e.byCategory.length === 0 ? "(sin errores registrados)" : undefined });
+
+  const wpRows: Cell[][] = [["Proyecto", "Errores", "Bucles", "Reintentos", "Tokens", "USD"]];
+  for (const p of e.byProject.slice(0, 10)) wpRows.push([shortProject(p.project), fmt(p.errors), fmt(p.retryLoops), fmt(p.retries), fmt(p.tokens), usd(p.costUsd)]);
+  out.push({ title: "Desperdicio por proyecto (top 10)", level: 3, kind: "table", rows: wpRows, align: ["l"], empty: e.byProject.length === 0 ? "(sin errores registrados)" : undefined });
+
+  const errRows: Cell[][] = [["Tool", "Errores", "Total calls", "Tasa error"]];
+  for (const t of e.byTool) errRows.push([t.tool, fmt(t.errors), fmt(t.calls), pct(t.errors, t.calls)]);
+  out.push({ title: "Errores por tool", level: 3, kind: "table", rows: errRows, align: ["l"], empty: e.byTool.length === 0 ? "(sin errores registrados)" : undefined });
+
+  const rrRows: Cell[][] = [["Re-lecturas", "Fichero"]];
+  for (const f of e.topReReads) rrRows.push([fmt(f.reReads), f.file.length > 70 ? "..." + f.file.slice(-67) : f.file]);
+  out.push({ title: "Top 10 ficheros más re-leídos en la misma sesión", level: 3, kind: "table", rows: rrRows, empty: e.topReReads.length === 0 ? "(sin re-lecturas detectadas)" : undefined });
+
+  const esRows: Cell[][] = [["Fecha", ...(multiHarness ? ["Harness"] : []), ...(multiUser ? ["Usuario"] : []), "Errores", "Interrup.", "USD desperd.", "USD", "Proyecto"]];
+  for (const x of e.topSessions) {
+    esRows.push([(x.lastTs ?? "").slice(0, 10), ...(multiHarness ? [x.harness] : []), ...(multiUser ? [x.user ?? ""] : []), fmt(x.toolErrors), fmt(x.interruptions), usd(x.wasteUsd), usd(x.costUsd), shortProject(x.project)]);
+  }
+  out.push({ title: "Top 10 sesiones con más errores", level: 3, kind: "table", rows: esRows, align: sessionAlign, empty: e.topSessions.length === 0 ? "(sin sesiones con errores)" : undefined });
+
+  const sessRows: Cell[][] = [["Fecha", ...(multiHarness ? ["Harness"] : []), ...(multiUser ? ["Usuario"] : []), "User", "Asst", "Tokens", "USD", "Proyecto"]];
+  for (const x of r.topSessions) {
+    sessRows.push([(x.lastTs ?? "").slice(0, 10), ...(multiHarness ? [x.harness] : []), ...(multiUser ? [x.user ?? ""] : []), fmt(x.userMsgs), fmt(x.assistantMsgs), fmt(x.tokens), usd(x.costUsd), shortProject(x.project)]);
+  }
+  out.push({ title: "10. Top 10 sesiones más caras", level: 2, kind: "table", rows: sessRows, align: sessionAlign });
+
+  const cx = r.context;
+  out.push({
+    title: "11. Salud del contexto (conversación principal)",
+    level: 2,
+    kind: "kv",
+    align: ["l", "l"],
+    rows: [
+      ["Turnos",                          fmt(cx.turns)],
+      ["Prompt medio / máximo",           fmt(cx.avgPromptTokens) + " / " + fmt(cx.peakPromptTokens) + " tokens"],
+      ["Sesiones compactadas",            fmt(cx.sessionsCompacted) + " de " + fmt(s.sessions)],
+      ["Compactaciones",                  fmt(cx.compactions) + "  (" + fmt(cx.autoCompactions) + " automáticas)"],
+      ["Turnos hasta la 1ª compactación", cx.avgTurnsToFirstCompaction === null ? "n/a" : cx.avgTurnsToFirstCompaction.toFixed(1) + " de media"],
+      ["Contexto liberado por compact.",  cx.avgFreedTokens === null ? "n/a" : fmt(cx.avgFreedTokens) + " tokens de media"],
+      ["Invalidaciones de caché",         fmt(cx.invalidations) + "  (" + fmt(cx.invalidatedTokens) + " tokens re-escritos)"],
+      ["Tool results grandes",            fmt(cx.largeResults) + "  (" + fmt(cx.largeResultTokens) + " tokens)"],
+    ],
+  });
+
+  const cwRows: Cell[][] = [["Semana", "Sesiones", "Turnos", "Prompt medio", "Prompt máx."]];
+  for (const w of cx.byWeek) cwRows.push([w.week, fmt(w.sessions), fmt(w.turns), fmt(w.avgPromptTokens), fmt(w.peakPromptTokens)]);
+  out.push({ title: "Tamaño de prompt por semana", level: 3, kind: "table", rows: cwRows, align: ["l"], empty: cx.byWeek.length === 0 ? "(sin turnos con uso)" : undefined });
+
+  const cpRows: Cell[][] = [["Proyecto", "Sesiones", "Prompt medio", "Prompt máx.", "Compact.", "Invalid.", "Tokens re-escritos", "Results grandes", "Tokens results", "Turnos >100k"]];
+  for (const p of cx.byProject.slice(0, 10)) {
+    cpRows.push([shortProject(p.project), fmt(p.sessions), fmt(p.avgPromptTokens), fmt(p.peakPromptTokens), fmt(p.compactions), fmt(p.invalidations), fmt(p.invalidatedTokens), fmt(p.largeResults), fmt(p.largeResultTokens), fmt(p.highContextTurns)]);
+  }
+  out.push({ title: "Proyectos que más inflan el contexto (top 10)", level: 3, kind: "table", rows: cpRows, align: ["l"], empty: cx.byProject.length === 0 ? "(sin turnos con uso)" : undefined });
+
+  const ctRows: Cell[][] = [["Tool", "Results grandes", "Tokens", "Máx. tokens"]];
+  for (const t of cx.byTool) ctRows.push([t.tool, fmt(t.largeResults), fmt(t.tokens), fmt(t.maxTokens)]);
+  out.push({ title: "Tools con tool_results grandes (>10k tokens)", level: 3, kind: "table", rows: ctRows, align: ["l"], empty: cx.byTool.length === 0 ? "(ningún tool_result grande)" : undefined });
+
+  const ccRows: Cell[][] = [["Fecha", "Turnos", "Turnos >100k", "USD en >100k", "Prompt máx.", "1ª compact.", "Sesión", "Proyecto"]];
+  for (const c of cx.compactionCandidates) {
+    ccRows.push([(c.lastTs ?? "").slice(0, 10), fmt(c.turns), fmt(c.highContextTurns), usd(c.highContextCostUsd), fmt(c.peakPromptTokens), c.firstCompactionTurn === null ? "nunca" : "turno " + c.firstCompactionTurn, c.sessionId.slice(0, 8), shortProject(c.project)]);
+  }
+  out.push({ title: "Sesiones que se beneficiarían de compactar antes", level: 3, kind: "table", rows: ccRows, align: ["l", "r", "r", "r", "r", "l", "l", "l"], empty: cx.compactionCandidates.length === 0 ? "(ninguna sesión con 10+ turnos por encima de 100k tokens)" : undefined });
+
+  if (multiUser) {
+    const userRows: Cell[][] = [["Usuario", "Sesiones", "User msgs", "Asst msgs", "Tokens", "Tool errors", "USD desperd.", "% gasto", "USD"]];
+    for (const u of r.byUser) {
+      userRows.push([u.user, fmt(u.sessions), fmt(u.userMsgs), fmt(u.assistantMsgs), fmt(u.tokens), fmt(u.toolErrors) + " (" + pct(u.toolErrors, u.toolCalls) + ")", usd(u.wasteUsd), pct(u.costUsd, s.costUsd), usd(u.costUsd)]);
+    }
+    out.push({ title: "12. Por usuario (bundles combinados)", level: 2, kind: "table", rows: userRows, align: ["l"] });
+  }
+
+  return out;
+}
+
+function sectionsToText(title: string, secs: Section[]): string {
+  const out: string[] = [
+    "\n========================================================",
+    "  " + title,
+    "========================================================\n",
+  ];
+  for (const sec of secs) {
+    out.push("#".repeat(sec.level) + " " + sec.title + "\n");
+    out.push(sec.empty ?? printTable(sec.rows, sec.align));
+    out.push("");
+  }
+  out.push("========================================================\n");
+  return out.join("\n");
+}
+
+export function renderTable(r: Report): string {
+  return sectionsToText("CLAUDE CODE — INFORME DE USO", sections(r));
+}
+
+function mdCell(c: Cell): string {
+  return String(c).trim().replace(/\|/g, "\\|");
+}
+
+function sectionsToMarkdown(title: string, secs: Section[]): string {
+  const out: string[] = ["# " + title, ""];
+  for (const sec of secs) {
+    out.push("#".repeat(sec.level) + " " + sec.title, "");
+    if (sec.empty) {
+      out.push("_" + sec.empty + "_", "");
+      continue;
+    }
+    const [header, ...body] = sec.kind === "kv" ? [["Métrica", "Valor"], ...sec.rows] : sec.rows;
+    out.push("| " + header.map(mdCell).join(" | ") + " |");
+    out.push("| " + header.map((_, i) => ((sec.align?.[i] ?? "r") === "l" ? ":---" : "---:")).join(" | ") + " |");
+    for (const row of body) out.push("| " + row.map(mdCell).join(" | ") + " |");
+    out.push("");
+  }
+  return out.join("\n");
+}
+
+export function renderMarkdown(r: Report): string {
+  return sectionsToMarkdown("Claude Code — informe de uso", sections(r));
+}
+
+// ----- HTML -----
+
+export function esc(v: Cell): string {
+  return String(v).replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/"/g, "&quot;");
+}
+
+/** Section tables as HTML; `sortable` tables reorder on a header click (see htmlPage). */
+export function sectionsToHtml(secs: Section[]): string {
+  const out: string[] = [];
+  for (const sec of secs) {
+    out.push(`<h${sec.level}>${esc(sec.title)}</h${sec.level}>`);
+    if (sec.empty) {
+      out.push(`<p class="empty">${esc(sec.empty)}</p>`);
+      continue;
+    }
+    const cls = (i: number) => ((sec.align?.[i] ?? "r") === "l" ? "" : ' class="r"');
+    if (sec.kind === "kv") {
+      out.push('<table class="kv">');
+      for (const [k, v] of sec.rows) out.push(`<tr><th>${esc(String(k).trim())}</th><td>${esc(v)}</td></tr>`);
+      out.push("</table>");
+      continue;
+    }
+    const [header, ...body] = sec.rows;
+    out.push('<table class="sortable"><thead><tr>' + header.map((h, i) => `<th${cls(i)}>${esc(h)}</th>`).join("") + "</tr></thead><tbody>");
+    for (const row of body) out.push("<tr>" + row.map((c, i) => `<td${cls(i)}>${esc(c)}</td>`).join("") + "</tr>");
+    out.push("</tbody></table>");
+  }
+  return out.join("\n");
+}
+
+const HTML_STYLE = `
+:root { color-scheme: light dark; --fg: #1f2328; --muted: #656d76; --bg: #fff; --alt: #f6f8fa; --line: #d0d7de; --accent: #0969da; --warn: #cf222e; }
+@media (prefers-color-scheme: dark) { :root { --fg: #e6edf3; --muted: #8d96a0; --bg: #0d1117; --alt: #161b22; --line: #30363d; --accent: #4493f8; --warn: #f85149; } }
+body { font: 14px/1.45 system-ui, sans-serif; color: var(--fg); background: var(--bg); margin: 0 auto; padding: 1rem 2rem 4rem; max-width: 1400px; }
+h1 { font-size: 1.6rem; } h2 { margin-top: 2.2rem; border-bottom: 1px solid var(--line); padding-bottom: .3rem; } h3 { margin-top: 1.6rem; }
+a { color: var(--accent); }
+table { border-collapse: collapse; margin: .5rem 0; font-variant-numeric: tabular-nums; }
+th, td { padding: .25rem .6rem; border-bottom: 1px solid var(--line); text-align: left; vertical-align: top; }
+.r { text-align: right; white-space: nowrap; }
+tbody tr:nth-child(even) { background: var(--alt); }
+table.kv th { font-weight: normal; color: var(--muted); }
+table.sortable th { cursor: pointer; user-select: none; }
+table.sortable th[data-dir="asc"]::after { content: " ▲"; } table.sortable th[data-dir="desc"]::after { content: " ▼"; }
+.empty, .note { color: var(--muted); font-style: italic; }
+.cards { display: flex; flex-wrap: wrap; gap: .8rem; margin: 1rem 0; }
+.card { border: 1px solid var(--line); border-radius: 6px; padding: .6rem 1rem; min-width: 9rem; }
+.card b { display: block; font-size: 1.3rem; } .card span { color: var(--muted); font-size: .85rem; }
+.charts { display: grid; grid-template-columns: repeat(auto-fill, minmax(480px, 1fr)); gap: 1rem 2rem; }
+figure { margin: 0; } figcaption { font-weight: 600; margin-bottom: .3rem; }
+svg { width: 100%; height: auto; font-size: 11px; } svg text { fill: var(--fg); } svg .axis { fill: var(--muted); }
+svg .grid { stroke: var(--line); } svg .bar { fill: var(--accent); } svg .bar.warn { fill: var(--warn); }
+svg .line { fill: none; stroke: var(--accent); stroke-width: 2; } svg .dot { fill: var(--accent); }
+.timeline { display: none; } .timeline:target { display: block; }
+details > summary { cursor: pointer; font-size: 1.2rem; margin-top: 2rem; }
+`;
+
+// Sorts a table.sortable by the clicked column: data-v when present, else the cell
+// text read as a number (es-ES digits, $, %) when both sides are one.
+const HTML_SCRIPT = `
+const num = s => { const t = s.replace(/[$%\\s]/g, "").replace(/\\.(?=\\d{3}(\\D|$))/g, "").replace(",", "."); return t !== "" && !isNaN(t) ? Number(t) : null; };
+for (const th of document.querySelectorAll("table.sortable th")) th.addEventListener("click", () => {
+  const table = th.closest("table"), body = table.tBodies[0], col = th.cellIndex;
+  const dir = th.dataset.dir === "desc" ? "asc" : "desc";
+  for (const h of table.tHead.rows[0].cells) delete h.dataset.dir;
+  th.dataset.dir = dir;
+  const key = row => { const td = row.cells[col]; const v = td?.dataset.v ?? td?.textContent ?? ""; return { n: num(v), s: v }; };
+  const rows = [...body.rows].sort((a, b) => {
+    const x = key(a), y = key(b);
+    const c = x.n !== null && y.n !== null ? x.n - y.n : x.s.localeCompare(y.s);
+    return dir === "asc" ? c : -c;
+  });
+  body.append(...rows);
+});
+`;
+
+/** A complete offline page: inline style and script, nothing fetched. */
+export function htmlPage(title: string, body: string): string {
+  return `<!DOCTYPE html>
+<html lang="es">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>${esc(title)}</title>
+<style>${HTML_STYLE}</style>
+</head>
+<body>
+<h1>${esc(title)}</h1>
+${body}
+<script>${HTML_SCRIPT}</script>
+</body>
+</html>
+`;
+}
+
+export function renderJson(r: Report): string {
+  return JSON.stringify(r, null, 2) + "\n";
+}
+
+function csvValue(v: unknown): string {
+  if (v === null || v === undefined) return "";
+  const s = typeof v === "number" && !Number.isInteger(v) ? v.toFixed(6) : String(v);
+  return /[",\r\n]/.test(s) ? '"' + s.replace(/"/g, '""') + '"' : s;
+}
+
+function toCsv<T extends object>(rows: T[], columns: (keyof T & string)[]): string {
+  const lines = [columns.join(",")];
+  for (const row of rows) lines.push(columns.map(c => csvValue(row[c])).join(","));
+  return lines.join("\n") + "\n";
+}
+
+const SESSION_COLUMNS: (keyof SessionRow)[] = ["sessionId", "harness", "user", "project", "firstTs", "lastTs", "userMsgs", "assistantMsgs", "tokens", "toolErrors", "interruptions", "costUsd", "wasteUsd"];
+
+/** One CSV document per report section, keyed by file name. */
+export function renderCsv(r: Report): Map<string, string> {
+  const { byTool, byCategory, byProject, topReReads, topSessions, ...errorTotals } = r.errors;
+  const files = new Map<string, string>();
+  const summaryRow = {
+    schemaVersion: r.schemaVersion,
+    from: r.period.from,
+    to: r.period.to,
+    filterSince: r.filters.since,
+    filterUntil: r.filters.until,
+    filterProject: r.filters.project,
+    filterModel: r.filters.model,
+    filterHarness: r.filters.harness,
+    raw: r.diagnostics.raw,
+    duplicateAssistantRecords: r.diagnostics.duplicateAssistantRecords,
+    replayedAssistantRecords: r.diagnostics.replayedAssistantRecords,
+    ...r.summary,
+  };
+  files.set("summary.csv", toCsv([summaryRow], Object.keys(summaryRow) as (keyof typeof summaryRow)[]));
+  files.set("models.csv", toCsv(r.byModel, ["model", "sessions", "input", "cacheRead", "cacheCreate", "cacheCreate5m", "cacheCreate1h", "output", "tokens", "costUsd", "priced"]));
+  files.set("unpriced-models.csv", toCsv(r.unpricedModels, ["model", "sessions", "tokens"]));
+  files.set("harnesses.csv", toCsv(r.byHarness, ["harness", "sessions", "userMsgs", "assistantMsgs", "tokens", "toolCalls", "toolErrors", "costUsd"]));
+  files.set("projects.csv", toCsv(r.byProject.map(p => ({ ...p, harnesses: p.harnesses.join(" ") })), ["project", "harnesses", "sessions", "userMsgs", "assistantMsgs", "tokens", "costUsd"]));
+  files.set("users.csv", toCsv(r.byUser, ["user", "sessions", "userMsgs", "assistantMsgs", "tokens", "toolCalls", "toolErrors", "wasteUsd", "costUsd"]));
+  files.set("weeks.csv", toCsv(r.byWeek, ["week", "sessions", "userMsgs", "assistantMsgs", "tokens", "cacheRead", "cacheCreate", "costUsd"]));
+  files.set("tools.csv", toCsv(r.tools, ["name", "count"]));
+  files.set("agents.csv", toCsv(r.agents, ["name", "count"]));
+  files.set("subagents.csv", toCsv(r.subagents, ["subagentType", "invocations", "runs", "tokens", "costUsd", "costPerInvocationUsd", "toolCalls", "toolErrors"]));
+  files.set("skills.csv", toCsv(r.skills, ["name", "count"]));
+  files.set("skill-hints.csv", toCsv(r.skillHints, ["skill", "hinted", "followed", "invoked", "invokedAfterHint", "invokedWithoutHint", "precision", "recall"]));
+  files.set("commands.csv", toCsv(r.commands, ["name", "count"]));
+  files.set("command-costs.csv", toCsv(r.commandCosts, ["command", "invocations", "turns", "tokens", "costUsd", "costPerUseUsd", "toolCalls", "subagents", "errors"]));
+  files.set("flow-plans.csv", toCsv(r.flowPlans, ["plan", "runs", "sessions", "tokens", "costUsd", "toolCalls", "subagents", "errors", "firstRunTs", "lastRunTs"]));
+  files.set("errors.csv", toCsv([errorTotals], ["toolCalls", "toolErrors", "bashExitErrors", "interruptions", "reReads", "wasteApproxUsd", "retryLoops", "retries", "wasteTokens", "wasteUsd"]));
+  files.set("error-categories.csv", toCsv(byCategory, ["category", "errors", "retryLoops", "retries", "tokens", "costUsd"]));
+  files.set("error-projects.csv", toCsv(byProject, ["project", "errors", "retryLoops", "retries", "tokens", "costUsd"]));
+  files.set("errors-by-tool.csv", toCsv(byTool, ["tool", "errors", "calls"]));
+  files.set("re-reads.csv", toCsv(topReReads, ["file", "reReads"]));
+  files.set("error-sessions.csv", toCsv(topSessions, SESSION_COLUMNS));
+  files.set("top-sessions.csv", toCsv(r.topSessions, SESSION_COLUMNS));
+  const { byWeek: ctxWeeks, byProject: ctxProjects, byTool: ctxTools, compactionCandidates, ...contextTotals } = r.context;
+  files.set("context.csv", toCsv([contextTotals], Object.keys(contextTotals) as (keyof typeof contextTotals)[]));
+  files.set("context-weeks.csv", toCsv(ctxWeeks, ["week", "sessions", "turns", "avgPromptTokens", "peakPromptTokens"]));
+  files.set("context-projects.csv", toCsv(ctxProjects, ["project", "sessions", "turns", "avgPromptTokens", "peakPromptTokens", "compactions", "invalidations", "invalidatedTokens", "largeResults", "largeResultTokens", "highContextTurns"]));
+  files.set("context-tools.csv", toCsv(ctxTools, ["tool", "largeResults", "tokens", "maxTokens"]));
+  files.set("compaction-candidates.csv", toCsv(compactionCandidates, ["sessionId", "project", "lastTs", "turns", "peakPromptTokens", "highContextTurns", "highContextCostUsd", "firstCompactionTurn"]));
+  return files;
+}
+
+// ----- Session timeline -----
+
+function kChars(n: number): string {
+  return n >= 1000 ? (n / 1000).toFixed(1) + "k" : String(n);
+}
+
+export function timelineSections(t: SessionTimeline): Section[] {
+  const header: Section = {
+    title: "Sesión " + t.sessionId,
+    level: 2,
+    kind: "kv",
+    align: ["l", "l"],
+    rows: [
+      ["Proyecto",      t.cwd || t.projectDir],
+      ["Harness",       t.harness],
+      ["Periodo",       (t.firstTs ?? "n/a").slice(0, 19).replace("T", " ") + " → " + (t.lastTs ?? "n/a").slice(0, 19).replace("T", " ")],
+      ["Turnos",        fmt(t.turns)],
+      ["Tokens",        fmt(t.tokens)],
+      ["Coste USD",     usd(t.costUsd)],
+      ["Compactaciones", fmt(t.compactions)],
+      ["Tool errors",   fmt(t.toolErrors)],
+      ["Interrupciones", fmt(t.interruptions)],
+    ],
+  };
+
+  const rows: Cell[][] = [["#", "Hora", "Modelo", "Input", "Cache R", "Cache C", "Output", "Contexto", "Δ ctx", "USD", "USD acum.", "Eventos"]];
+  t.events.forEach((e, i) => {
+    const time = (e.timestamp ?? "").slice(11, 19);
+    if (e.kind === "compact") {
+      const pre = e.preTokens !== null ? ", " + fmt(e.preTokens) + " tokens antes" : "";
+      rows.push([i + 1, time, "", "", "", "", "", "", "", "", "", `── compactación (${e.trigger}${pre}) ──`]);
+    } else if (e.kind === "prompt") {
+      const what = e.commands.length > 0 ? e.commands.map(c => "/" + c).join(" ") : "prompt";
+      const who = e.subagent ? "↳ " + subagentLabel(e.subagent) + " · " : "";
+      rows.push([i + 1, time, "", "", "", "", "", "", "", "", "", who + "» " + what + (e.interrupted ? " ⚠ interrumpido" : "")]);
+    } else {
+      const calls = e.toolCalls.map(c => {
+        let txt = c.name + (c.target ? "(" + c.target + ")" : "");
+        if (c.resultChars !== null) txt += " " + kChars(c.resultChars);
+        if (c.errorCategory) txt += " ✗ " + c.errorCategory;
+        if (c.interrupted) txt += " ⚠";
+        return txt;
+      });
+      rows.push([
+        i + 1,
+        time,
+        e.model ? modelKey(e.model).replace(/^claude-/, "") : "?",
+        fmt(e.input),
+        fmt(e.cacheRead),
+        fmt(e.cacheCreate),
+        fmt(e.output),
+        fmt(e.contextTokens),
+        e.contextDelta === null ? "" : (e.contextDelta >= 0 ? "+" : "") + fmt(e.contextDelta),
+        "$" + e.costUsd.toFixed(4),
+        usd(e.runningCostUsd),
+        (e.subagent ? "↳ " + subagentLabel(e.subagent) + " · " : "") + calls.join(", "),
+      ]);
+    }
+  });
+
+  return [header, { title: "Timeline", level: 3, kind: "table", rows, align: ["r", "l", "l", "r", "r", "r", "r", "r", "r", "r", "r", "l"], empty: t.events.length === 0 ? "(sin eventos)" : undefined }];
+}
+
+export function renderTimeline(t: SessionTimeline, format: Exclude<Format, "csv">): string {
+  if (format === "json") return JSON.stringify(t, null, 2) + "\n";
+  if (format === "markdown") return sectionsToMarkdown("Claude Code — timeline de sesión", timelineSections(t));
+  if (format === "html") return htmlPage("Claude Code — timeline de sesión", sectionsToHtml(timelineSections(t)));
+  return sectionsToText("CLAUDE CODE — TIMELINE DE SESIÓN", timelineSections(t));
+}
+
+/** Flat one-row-per-event CSV; tool calls are joined into one cell. */
+export function renderTimelineCsv(t: SessionTimeline): Map<string, string> {
+  const rows = t.events.map((e, i) => ({
+    seq: i + 1,
+    kind: e.kind,
+    timestamp: e.timestamp,
+    subagent: e.kind === "compact" ? null : e.subagent,
+    model: e.kind === "turn" ? e.model : null,
+    input: e.kind === "turn" ? e.input : null,
+    cacheRead: e.kind === "turn" ? e.cacheRead : null,
+    cacheCreate: e.kind === "turn" ? e.cacheCreate : null,
+    output: e.kind === "turn" ? e.output : null,
+    contextTokens: e.kind === "turn" ? e.contextTokens : e.kind === "compact" ? e.preTokens : null,
+    contextDelta: e.kind === "turn" ? e.contextDelta : null,
+    costUsd: e.kind === "turn" ? e.costUsd : null,
+    runningCostUsd: e.kind === "turn" ? e.runningCostUsd : null,
+    toolCalls: e.kind === "turn" ? e.toolCalls.map(c => c.name + (c.isError ? "!" : "")).join(" ") : null,
+    errorCategories: e.kind === "turn" ? e.toolCalls.flatMap(c => (c.errorCategory ? [c.errorCategory] : [])).join(" ") : null,
+    toolErrors: e.kind === "turn" ? e.toolCalls.filter(c => c.isError).length : null,
+    commands: e.kind === "prompt" ? e.commands.join(" ") : null,
+    interrupted: e.kind === "prompt" ? e.interrupted : null,
+  }));
+  const columns = ["seq", "kind", "timestamp", "subagent", "model", "input", "cacheRead", "cacheCreate", "output", "contextTokens", "contextDelta", "costUsd", "runningCostUsd", "toolCalls", "toolErrors", "errorCategories", "commands", "interrupted"] as const;
+  return new Map([[`timeline-${t.sessionId}.csv`, toCsv(rows, [...columns])]]);
+}
+
+// ----- 5-hour blocks -----
+
+function hm(minutes: number): string {
+  return Math.floor(minutes / 60) + "h" + String(minutes % 60).padStart(2, "0") + "m";
+}
+
+function blocksSections(r: BlocksReport): Section[] {
+  const when = (iso: string) => iso.slice(0, 16).replace("T", " ");
+  const limits = [
+    r.limits.tokens !== null && fmt(r.limits.tokens) + " tokens",
+    r.limits.costUsd !== null && usd(r.limits.costUsd),
+  ].filter(Boolean);
+  const a = r.active;
+  const summary: Section = {
+    title: "Bloque activo",
+    level: 2,
+    kind: "kv",
+    align: ["l", "l"],
+    rows: a
+      ? [
+          ["Ventana",          when(a.start) + " → " + when(a.end)],
+          ["Tiempo restante",  hm(a.projection!.remainingMinutes)],
+          ["Tokens",           fmt(a.tokens)],
+          ["Coste USD",        usd(a.costUsd)],
+          ["Ritmo",            a.tokensPerHour === null ? "n/a" : fmt(Math.round(a.tokensPerHour)) + " tokens/h · " + usd(a.costPerHourUsd!) + "/h"],
+          ["Proyección",       fmt(a.projection!.tokens) + " tokens · " + usd(a.projection!.costUsd) + (a.projection!.overLimit ? "  ⚠ supera el límite" : "")],
+          ...(limits.length > 0 ? [["Límite por bloque", limits.join(" / ")]] : []),
+        ]
+      : [["Estado", "sin bloque activo"], ...(limits.length > 0 ? [["Límite por bloque", limits.join(" / ")]] : [])],
+  };
+
+  const rows: Cell[][] = [["Inicio", "Fin", "Sesiones", "Msgs", "Tokens", "USD", "Tokens/h", "USD/h", "Modelos", ""]];
+  for (const b of r.blocks) {
+    rows.push([
+      when(b.start),
+      when(b.end).slice(11),
+      fmt(b.sessions),
+      fmt(b.messages),
+      fmt(b.tokens),
+      usd(b.costUsd),
+      b.tokensPerHour === null ? "" : fmt(Math.round(b.tokensPerHour)),
+      b.costPerHourUsd === null ? "" : usd(b.costPerHourUsd),
+      b.models.map(m => m.replace(/^claude-/, "")).join(", "),
+      [b.active && "● activo", b.overLimit && "⚠ límite"].filter(Boolean).join(" "),
+    ]);
+  }
+  return [summary, { title: `Bloques de ${r.blockHours}h`, level: 2, kind: "table", rows, align: ["l", "l", "r", "r", "r", "r", "r", "r", "l", "l"], empty: r.blocks.length === 0 ? "(sin uso en el periodo)" : undefined }];
+}
+
+export function renderBlocks(r: BlocksReport, format: Exclude<Format, "csv">): string {
+  if (format === "json") return JSON.stringify(r, null, 2) + "\n";
+  if (format === "markdown") return sectionsToMarkdown("Claude Code — bloques de 5 horas", blocksSections(r));
+  if (format === "html") return htmlPage("Claude Code — bloques de 5 horas", sectionsToHtml(blocksSections(r)));
+  return sectionsToText("CLAUDE CODE — BLOQUES DE 5 HORAS", blocksSections(r));
+}
+
+export function renderBlocksCsv(r: BlocksReport): Map<string, string> {
+  const rows = r.blocks.map(b => ({
+    ...b,
+    models: b.models.join(" "),
+    projectedTokens: b.projection?.tokens ?? null,
+    projectedCostUsd: b.projection?.costUsd ?? null,
+    remainingMinutes: b.projection?.remainingMinutes ?? null,
+  }));
+  const columns = ["start", "end", "firstTs", "lastTs", "active", "sessions", "messages", "tokens", "costUsd", "tokensPerHour", "costPerHourUsd", "models", "overLimit", "projectedTokens", "projectedCostUsd", "remainingMinutes"] as const;
+  return new Map([["blocks.csv", toCsv(rows, [...columns])]]);
+}
+
+// ----- Statusline -----
+
+/** One line, fields in the requested order, separated like ccstatusline's default layout. */
+export function renderStatusline(d: StatuslineData, fields: StatuslineField[]): string {
+  const parts = fields.map(f => {
+    switch (f) {
+      case "model": return d.model ?? "";
+      case "session": return usd(d.sessionCostUsd);
+      case "today": return "hoy " + usd(d.todayCostUsd);
+      case "block": return "5h ⏳ " + (d.blockRemainingMinutes === null ? "—" : hm(d.blockRemainingMinutes));
+      case "cache": return "cache " + (d.cacheHitPct === null ? "—" : d.cacheHitPct.toFixed(0) + "%");
+      case "errors": return "✗ " + d.toolErrors;
+    }
+  });
+  return parts.filter(Boolean).join(" │ ");
+}
+
+// ----- Budget check -----
+
+function budgetAmount(unit: "usd" | "tokens", n: number): string {
+  return unit === "usd" ? usd(n) : fmt(Math.round(n)) + " tokens";
+}
+
+function checkSections(r: CheckReport): Section[] {
+  const flagged = r.budgets.filter(b => b.status !== "ok").sort((a, b) => b.ratio - a.ratio);
+  const rows: Cell[][] = [["Presupuesto", "Desde", "Usado", "Límite", "%", "Estado"]];
+  for (const b of flagged) {
+    rows.push([
+      b.name,
+      b.periodStart.slice(0, 10),
+      budgetAmount(b.unit, b.used),
+      budgetAmount(b.unit, b.limit),
+      (b.ratio * 100).toFixed(0) + "%",
+      b.status === "over" ? "✗ superado" : "⚠ cerca",
+    ]);
+  }
+  return [
+    {
+      title: "Presupuestos",
+      level: 2,
+      kind: "kv",
+      align: ["l", "l"],
+      rows: [
+        ["Evaluados",        fmt(r.budgets.length)],
+        ["Superados",        fmt(r.exceeded)],
+        ["Cerca del límite", fmt(r.near) + "  (≥ " + (r.warnAt * 100).toFixed(0) + "%)"],
+      ],
+    },
+    { title: "Superados o cerca del límite", level: 3, kind: "table", rows, align: ["l", "l", "r", "r", "r", "l"], empty: flagged.length === 0 ? "(todos dentro de presupuesto)" : undefined },
+  ];
+}
+
+export function renderCheck(r: CheckReport, format: Exclude<Format, "csv">): string {
+  if (format === "json") return JSON.stringify(r, null, 2) + "\n";
+  if (format === "markdown") return sectionsToMarkdown("Claude Code — presupuestos", checkSections(r));
+  if (format === "html") return htmlPage("Claude Code — presupuestos", sectionsToHtml(checkSections(r)));
+  return sectionsToText("CLAUDE CODE — PRESUPUESTOS", checkSections(r));
+}
+
+export function renderCheckCsv(r: CheckReport): Map<string, string> {
+  return new Map([["budgets.csv", toCsv(r.budgets, ["name", "period", "unit", "project", "model", "periodStart", "periodEnd", "limit", "used", "ratio", "status"])]]);
+}
+
+// ----- Period comparison -----
+
+const METRIC_LABELS: Record<MetricKey, string> = {
+  sessions: "Sesiones",
+  costUsd: "Coste USD",
+  costPerSessionUsd: "USD / sesión",
+  tokensPerMsg: "Tokens / msg",
+  cacheReadShare: "Cache read (% tokens)",
+  toolErrorRate: "Tasa de error tools",
+  interruptions: "Interrupciones",
+  reReads: "Re-lecturas",
+};
+
+const DIMENSION_LABELS: Record<Dimension, string> = { model: "Modelo", project: "Proyecto", subagent: "Subagente", skill: "Skill" };
+
+function metricValue(metric: MetricKey, n: number): string {
+  if (metric === "costUsd" || metric === "costPerSessionUsd") return usd(n);
+  if (metric === "cacheReadShare" || metric === "toolErrorRate") return n.toFixed(1) + "%";
+  return fmt(Math.round(n));
+}
+
+/** Deltas of percentage metrics are in percentage points. */
+function metricDelta(metric: MetricKey, n: number): string {
+  const abs = metric === "cacheReadShare" || metric === "toolErrorRate" ? Math.abs(n).toFixed(1) + " pp" : metricValue(metric, Math.abs(n));
+  return signed(abs, n);
+}
+
+function signed(text: string, n: number): string {
+  return n > 0 ? "+" + text : n < 0 ? "-" + text.replace(/^-/, "") : text;
+}
+
+function pctChange(d: Delta): string {
+  return d.pctChange === null ? (d.delta === 0 ? "0%" : "nuevo") : signed(Math.abs(d.pctChange).toFixed(1) + "%", d.pctChange);
+}
+
+function dimensionRow(d: DimensionDelta, withDimension: boolean): Cell[] {
+  const value = (n: number) => (d.unit === "usd" ? usd(n) : fmt(n));
+  const name = d.dimension === "project" && d.name.length > 50 ? "..." + d.name.slice(-47) : d.dimension === "subagent" ? subagentLabel(d.name) : d.name;
+  return [...(withDimension ? [DIMENSION_LABELS[d.dimension]] : []), name, value(d.baseline), value(d.current), signed(value(Math.abs(d.delta)), d.delta), pctChange(d)];
+}
+
+function compareSections(c: Comparison): Section[] {
+  const range = (r: Comparison["current"]) => r.label + "  (" + r.since.slice(0, 16).replace("T", " ") + " → " + r.until.slice(0, 16).replace("T", " ") + ")";
+  const out: Section[] = [
+    {
+      title: "Periodos",
+      level: 2,
+      kind: "kv",
+      align: ["l", "l"],
+      rows: [
+        ["Actual", range(c.current)],
+        ["Base",   range(c.baseline)],
+      ],
+    },
+  ];
+
+  const trendMark = (m: MetricDelta) => (m.trend === "worse" ? "▲ peor" : m.trend === "better" ? "▼ mejor" : "");
+  const metricRows: Cell[][] = [["Métrica", "Base", "Actual", "Δ", "Δ%", ""]];
+  for (const m of c.metrics) {
+    metricRows.push([METRIC_LABELS[m.metric], metricValue(m.metric, m.baseline), metricValue(m.metric, m.current), metricDelta(m.metric, m.delta), pctChange(m), trendMark(m)]);
+  }
+  out.push({ title: "Métricas", level: 2, kind: "table", rows: metricRows, align: ["l", "r", "r", "r", "r", "l"] });
+
+  const moverRows: Cell[][] = [["", "Nombre", "Base", "Actual", "Δ", "Δ%"]];
+  for (const m of c.movers.metrics) {
+    moverRows.push([trendMark(m), METRIC_LABELS[m.metric], metricValue(m.metric, m.baseline), metricValue(m.metric, m.current), metricDelta(m.metric, m.delta), pctChange(m)]);
+  }
+  for (const d of c.movers.rows) moverRows.push(dimensionRow(d, true));
+  const moversEmpty = c.movers.metrics.length + c.movers.rows.length === 0;
+  out.push({ title: "Mayores cambios", level: 2, kind: "table", rows: moverRows, align: ["l", "l"], empty: moversEmpty ? "(sin cambios relevantes)" : undefined });
+
+  const dims: [string, DimensionDelta[]][] = [
+    ["Por modelo (USD)", c.byModel],
+    ["Por proyecto (USD)", c.byProject],
+    ["Por subagente (USD)", c.bySubagent],
+    ["Por skill (invocaciones)", c.bySkill],
+  ];
+  for (const [title, rows] of dims) {
+    const table: Cell[][] = [[DIMENSION_LABELS[rows[0]?.dimension ?? "model"], "Base", "Actual", "Δ", "Δ%"]];
+    for (const d of rows.slice(0, 10)) table.push(dimensionRow(d, false));
+    out.push({ title, level: 3, kind: "table", rows: table, align: ["l"], empty: rows.length === 0 ? "(sin datos en ninguno de los periodos)" : undefined });
+  }
+  return out;
+}
+
+export function renderComparison(c: Comparison, format: Exclude<Format, "csv">): string {
+  if (format === "json") return JSON.stringify(c, null, 2) + "\n";
+  if (format === "markdown") return sectionsToMarkdown("Claude Code — comparación de periodos", compareSections(c));
+  if (format === "html") return htmlPage("Claude Code — comparación de periodos", sectionsToHtml(compareSections(c)));
+  return sectionsToText("CLAUDE CODE — COMPARACIÓN DE PERIODOS", compareSections(c));
+}
+
+export function renderComparisonCsv(c: Comparison): Map<string, string> {
+  return new Map([
+    ["compare-metrics.csv", toCsv(c.metrics, ["metric", "baseline", "current", "delta", "pctChange", "trend"])],
+    ["compare-dimensions.csv", toCsv([...c.byModel, ...c.byProject, ...c.bySubagent, ...c.bySkill], ["dimension", "name", "unit", "baseline", "current", "delta", "pctChange"])],
+  ]);
+}
@@ -0,0 +1,660 @@
+// Aggregation: folds per-session stats into the report model every renderer reads.
+// The Report shape is the public JSON contract — bump REPORT_SCHEMA_VERSION on any
+// breaking change (renamed/removed field, changed unit). Adding fields is not breaking.
+
+import { isFlow } from "./commands.ts";
+import { CANDIDATE_MIN_TURNS } from "./context.ts";
+import { addWaste, emptyWaste, type ErrorCategory, type ErrorWaste } from "./errors.ts";
+import type { Filters } from "./filters.ts";
+import type { Harness, ParseOptions, SessionStats } from "./parse.ts";
+import { counterfactualCost, totalCost, totalTokens } from "./pricing.ts";
+
+export const REPORT_SCHEMA = "poneglyph.token-trend.report";
+export const REPORT_SCHEMA_VERSION = 1;
+
+export type ModelRow = {
+  model: string;
+  sessions: number;
+  input: number;
+  output: number;
+  cacheRead: number;
+  cacheCreate: number;
+  cacheCreate5m: number;
+  cacheCreate1h: number;
+  tokens: number;
+  costUsd: number;
+  /** False when the pricing table has no entry for the model: its cost is reported as 0. */
+  priced: boolean;
+};
+export type UnpricedModelRow = { model: string; sessions: number; tokens: number };
+export type HarnessRow = { harness: Harness; sessions: number; userMsgs: number; assistantMsgs: number; tokens: number; costUsd: number; toolCalls: number; toolErrors: number };
+export type ProjectRow = { project: string; harnesses: Harness[]; sessions: number; userMsgs: number; assistantMsgs: number; tokens: number; costUsd: number };
+/** One row per exporting user of a merged report (bundle.ts). */
+export type UserRow = { user: string; sessions: number; userMsgs: number; assistantMsgs: number; tokens: number; costUsd: number; toolCalls: number; toolErrors: number; wasteUsd: number };
+export type WeekRow = { week: string; sessions: number; userMsgs: number; assistantMsgs: number; tokens: number; cacheRead: number; cacheCreate: number; costUsd: number };
+export type CountRow = { name: string; count: number };
+/** Spend of one subagent type, from the sidechain runs linked back to its Agent calls. */
+export type SubagentRow = {
+  subagentType: string;
+  invocations: number;
+  /** Sidechain transcripts linked to this type. */
+  runs: number;
+  tokens: number;
+  costUsd: number;
+  /** costUsd / invocations, null when there are none (unlinked runs). */
+  costPerInvocationUsd: number | null;
+  toolCalls: number;
+  toolErrors: number;
+};
+/** What one slash command cost, over its spans up to the next typed prompt (commands.ts). */
+export type CommandCostRow = {
+  command: string;
+  invocations: number;
+  turns: number;
+  tokens: number;
+  costUsd: number;
+  costPerUseUsd: number;
+  toolCalls: number;
+  subagents: number;
+  errors: number;
+};
+/** /flow runs grouped by the `.claude/plans/{NNN}-{slug}` they referenced; null: runs that named none. */
+export type FlowPlanRow = {
+  plan: string | null;
+  runs: number;
+  sessions: number;
+  tokens: number;
+  costUsd: number;
+  toolCalls: number;
+  subagents: number;
+  errors: number;
+  firstRunTs: string | null;
+  lastRunTs: string | null;
+};
+/** Hook Skill() hints against the Skill calls that followed them (skills.ts). */
+export type SkillHintRow = {
+  skill: string;
+  hinted: number;
+  /** Hints followed by an invocation within the window. */
+  followed: number;
+  invoked: number;
+  invokedAfterHint: number;
+  invokedWithoutHint: number;
+  /** followed / hinted; null without hints. */
+  precision: number | null;
+  /** invokedAfterHint / invoked; null without invocations. */
+  recall: number | null;
+};
+/** Main-conversation prompt sizes of the sessions whose last activity falls in the week. */
+export type ContextWeekRow = { week: string; sessions: number; turns: number; avgPromptTokens: number; peakPromptTokens: number };
+export type ContextProjectRow = {
+  project: string;
+  sessions: number;
+  turns: number;
+  avgPromptTokens: number;
+  peakPromptTokens: number;
+  compactions: number;
+  invalidations: number;
+  invalidatedTokens: number;
+  largeResults: number;
+  largeResultTokens: number;
+  highContextTurns: number;
+};
+/** Tool results over the large-payload threshold (context.ts), by tool. */
+export type ContextToolRow = { tool: string; largeResults: number; tokens: number; maxTokens: number };
+/** A session that spent many turns above the high-context threshold. */
+export type CompactionCandidateRow = {
+  sessionId: string;
+  project: string;
+  lastTs: string | null;
+  turns: number;
+  peakPromptTokens: number;
+  highContextTurns: number;
+  highContextCostUsd: number;
+  /** Turn of the first compaction, null when the session never compacted. */
+  firstCompactionTurn: number | null;
+};
+export type ToolErrorRow = { tool: string; errors: number; calls: number };
+/** Failed results of one category and the tokens measured on them and their retries (errors.ts). */
+export type ErrorCategoryRow = ErrorWaste & { category: ErrorCategory };
+export type ErrorProjectRow = ErrorWaste & { project: string };
+export type ReReadRow = { file: string; reReads: number };
+export type SessionRow = {
+  sessionId: string;
+  harness: Harness;
+  /** Exporting user in a merged report; null otherwise. */
+  user: string | null;
+  project: string;
+  firstTs: string | null;
+  lastTs: string | null;
+  userMsgs: number;
+  assistantMsgs: number;
+  tokens: number;
+  toolErrors: number;
+  interruptions: number;
+  costUsd: number;
+  /** Spent on failed calls, their results and retries. */
+  wasteUsd: number;
+};
+
+export type Report = {
+  schema: typeof REPORT_SCHEMA;
+  schemaVersion: number;
+  generatedAt: string;
+  period: { from: string | null; to: string | null };
+  filters: { since: string | null; until: string | null; project: string | null; model: string | null; harness: string | null };
+  /**
+   * raw: streamed fragments counted individually (--raw). Otherwise how many were folded,
+   * and how many records of a resumed or forked session were skipped as already counted.
+   */
+  diagnostics: { raw: boolean; duplicateAssistantRecords: number; replayedAssistantRecords: number };
+  summary: {
+    sessions: number;
+    userMsgs: number;
+    assistantMsgs: number;
+    tokens: number;
+    input: number;
+    cacheRead: number;
+    cacheCreate: number;
+    output: number;
+    costUsd: number;
+    counterfactualCostUsd: number;
+    cacheSavingsUsd: number;
+  };
+  byModel: ModelRow[];
+  unpricedModels: UnpricedModelRow[];
+  /** One row per harness with sessions in range (claude, codex, grok). */
+  byHarness: HarnessRow[];
+  byProject: ProjectRow[];
+  /** Empty unless the report was merged from export bundles. */
+  byUser: UserRow[];
+  byWeek: WeekRow[];
+  tools: CountRow[];
+  agents: CountRow[];
+  subagents: SubagentRow[];
+  skills: CountRow[];
+  /** Empty when no transcript in range carries a hook hint. */
+  skillHints: SkillHintRow[];
+  commands: CountRow[];
+  commandCosts: CommandCostRow[];
+  flowPlans: FlowPlanRow[];
+  errors: {
+    toolCalls: number;
+    toolErrors: number;
+    bashExitErrors: number;
+    interruptions: number;
+    reReads: number;
+    /** Superseded by wasteUsd: total cost × tool error rate, kept for existing readers. */
+    wasteApproxUsd: number;
+    /** Failed calls retried at least once, and the retries. */
+    retryLoops: number;
+    retries: number;
+    /** Measured on failed calls, their results and retries (errors.ts). */
+    wasteTokens: number;
+    wasteUsd: number;
+    byCategory: ErrorCategoryRow[];
+    byProject: ErrorProjectRow[];
+    byTool: ToolErrorRow[];
+    topReReads: ReReadRow[];
+    topSessions: SessionRow[];
+  };
+  /** Context-window health of the main conversations (context.ts). */
+  context: {
+    turns: number;
+    avgPromptTokens: number;
+    peakPromptTokens: number;
+    sessionsCompacted: number;
+    compactions: number;
+    autoCompactions: number;
+    /** Over sessions that compacted. */
+    avgTurnsToFirstCompaction: number | null;
+    avgFreedTokens: number | null;
+    invalidations: number;
+    invalidatedTokens: number;
+    largeResults: number;
+    largeResultTokens: number;
+    byWeek: ContextWeekRow[];
+    byProject: ContextProjectRow[];
+    byTool: ContextToolRow[];
+    compactionCandidates: CompactionCandidateRow[];
+  };
+  topSessions: SessionRow[];
+};
+
+export function isoWeek(dateStr: string): string {
+  const d = new Date(dateStr);
+  const target = new Date(Date.UTC(d.getUTCFullYear(), d.getUTCMonth(), d.getUTCDate()));
+  const dayNum = (target.getUTCDay() + 6) % 7;
+  target.setUTCDate(target.getUTCDate() - dayNum + 3);
+  const firstThursday = new Date(Date.UTC(target.getUTCFullYear(), 0, 4));
+  const week = 1 + Math.round(((target.getTime() - firstThursday.getTime()) / 86400000 - 3 + ((firstThursday.getUTCDay() + 6) % 7)) / 7);
+  return `${target.getUTCFullYear()}-W${String(week).padStart(2, "0")}`;
+}
+
+/** Bucket for sidechain spend whose spawning Agent call was not found. */
+export const UNLINKED_SUBAGENT = "(unlinked)";
+
+export function subagentType(s: SessionStats, agentId: string | null, promptKey: string | null): string {
+  return (agentId && s.agentTypeByAgentId.get(agentId)) || (promptKey && s.agentTypeByPrompt.get(promptKey)) || UNLINKED_SUBAGENT;
+}
+
+function subagentRows(sessions: SessionStats[], agentTotal: Map<string, number>): SubagentRow[] {
+  const rows = new Map<string, SubagentRow>();
+  const row = (type: string) => {
+    const r = rows.get(type) ?? { subagentType: type, invocations: agentTotal.get(type) ?? 0, runs: 0, tokens: 0, costUsd: 0, costPerInvocationUsd: null, toolCalls: 0, toolErrors: 0 };
+    rows.set(type, r);
+    return r;
+  };
+  for (const type of agentTotal.keys()) row(type);
+  for (const s of sessions) {
+    for (const chain of s.sidechains.values()) {
+      const r = row(subagentType(s, chain.agentId, chain.promptKey));
+      r.runs++;
+      r.tokens += chain.tokens;
+      r.costUsd += chain.costUsd;
+      r.toolCalls += chain.toolCalls;
+      r.toolErrors += chain.toolErrors;
+    }
+  }
+  for (const r of rows.values()) r.costPerInvocationUsd = r.invocations > 0 ? r.costUsd / r.invocations : null;
+  return [...rows.values()].sort((a, b) => b.costUsd - a.costUsd || b.invocations - a.invocations);
+}
+
+function skillHintRows(sessions: SessionStats[]): SkillHintRow[] {
+  const totals = new Map<string, Omit<SkillHintRow, "skill" | "invokedWithoutHint" | "precision" | "recall">>();
+  for (const s of sessions) {
+    for (const [skill, h] of s.skillHintStats) {
+      const t = totals.get(skill) ?? { hinted: 0, followed: 0, invoked: 0, invokedAfterHint: 0 };
+      t.hinted += h.hinted;
+      t.followed += h.followed;
+      t.invoked += h.invoked;
+      t.invokedAfterHint += h.invokedAfterHint;
+      totals.set(skill, t);
+    }
+  }
+  if (![...totals.values()].some(t => t.hinted > 0)) return [];
+  return [...totals.entries()]
+    .map(([skill, t]) => ({
+      skill,
+      ...t,
+      invokedWithoutHint: t.invoked - t.invokedAfterHint,
+      precision: t.hinted > 0 ? t.followed / t.hinted : null,
+      recall: t.invoked > 0 ? t.invokedAfterHint / t.invoked : null,
+    }))
+    .sort((a, b) => b.hinted - a.hinted || b.invoked - a.invoked || a.skill.localeCompare(b.skill));
+}
+
+function commandCostRows(sessions: SessionStats[]): CommandCostRow[] {
+  const rows = new Map<string, CommandCostRow>();
+  for (const s of sessions) {
+    for (const span of s.commandSpans) {
+      const r = rows.get(span.command) ?? { command: span.command, invocations: 0, turns: 0, tokens: 0, costUsd: 0, costPerUseUsd: 0, toolCalls: 0, subagents: 0, errors: 0 };
+      r.invocations++;
+      r.turns += span.turns;
+      r.tokens += span.tokens;
+      r.costUsd += span.costUsd;
+      r.toolCalls += span.toolCalls;
+      r.subagents += span.subagents;
+      r.errors += span.errors;
+      rows.set(span.command, r);
+    }
+  }
+  for (const r of rows.values()) r.costPerUseUsd = r.costUsd / r.invocations;
+  return [...rows.values()].sort((a, b) => b.costUsd - a.costUsd || b.invocations - a.invocations);
+}
+
+function flowPlanRows(sessions: SessionStats[]): FlowPlanRow[] {
+  const rows = new Map<string | null, FlowPlanRow & { sessionIds: Set<string> }>();
+  for (const s of sessions) {
+    for (const span of s.commandSpans) {
+      if (!isFlow(span.command)) continue;
+      const r = rows.get(span.plan) ?? { plan: span.plan, runs: 0, sessions: 0, tokens: 0, costUsd: 0, toolCalls: 0, subagents: 0, errors: 0, firstRunTs: null, lastRunTs: null, sessionIds: new Set() };
+      r.runs++;
+      r.sessionIds.add(s.sessionId);
+      r.tokens += span.tokens;
+      r.costUsd += span.costUsd;
+      r.toolCalls += span.toolCalls;
+      r.subagents += span.subagents;
+      r.errors += span.errors;
+      if (span.startTs && (!r.firstRunTs || span.startTs < r.firstRunTs)) r.firstRunTs = span.startTs;
+      if (span.startTs && (!r.lastRunTs || span.startTs > r.lastRunTs)) r.lastRunTs = span.startTs;
+      rows.set(span.plan, r);
+    }
+  }
+  return [...rows.values()]
+    .map(({ sessionIds, ...r }) => ({ ...r, sessions: sessionIds.size }))
+    .sort((a, b) => b.costUsd - a.costUsd);
+}
+
+function contextSection(sessions: SessionStats[]): Report["context"] {
+  const weeks = new Map<string, ContextWeekRow>();
+  const projects = new Map<string, ContextProjectRow>();
+  const tools = new Map<string, ContextToolRow>();
+  const candidates: CompactionCandidateRow[] = [];
+  let turns = 0;
+  let promptTokens = 0;
+  let peak = 0;
+  let firstCompactionTurns = 0;
+  const freed: number[] = [];
+  const compactions = sessions.flatMap(s => s.context.compactions);
+  for (const s of sessions) {
+    const c = s.context;
+    turns += c.turns;
+    promptTokens += c.promptTokens;
+    peak = Math.max(peak, c.peakPromptTokens);
+    if (c.turnsToFirstCompaction !== null) firstCompactionTurns += c.turnsToFirstCompaction;
+    for (const e of c.compactions) if (e.freedTokens !== null) freed.push(e.freedTokens);
+
+    if (s.lastTs && c.turns > 0) {
+      const w = isoWeek(s.lastTs);
+      const row = weeks.get(w) ?? { week: w, sessions: 0, turns: 0, avgPromptTokens: 0, peakPromptTokens: 0 };
+      row.sessions++;
+      row.turns += c.turns;
+      row.avgPromptTokens += c.promptTokens;
+      row.peakPromptTokens = Math.max(row.peakPromptTokens, c.peakPromptTokens);
+      weeks.set(w, row);
+    }
+
+    const key = s.cwd || s.projectDir;
+    const p = projects.get(key) ?? { project: key, sessions: 0, turns: 0, avgPromptTokens: 0, peakPromptTokens: 0, compactions: 0, invalidations: 0, invalidatedTokens: 0, largeResults: 0, largeResultTokens: 0, highContextTurns: 0 };
+    p.sessions++;
+    p.turns += c.turns;
+    p.avgPromptTokens += c.promptTokens;
+    p.peakPromptTokens = Math.max(p.peakPromptTokens, c.peakPromptTokens);
+    p.compactions += c.compactions.length;
+    p.invalidations += c.invalidations;
+    p.invalidatedTokens += c.invalidatedTokens;
+    p.highContextTurns += c.highContextTurns;
+    for (const [tool, l] of c.largeResults) {
+      p.largeResults += l.count;
+      p.largeResultTokens += l.tokens;
+      const t = tools.get(tool) ?? { tool, largeResults: 0, tokens: 0, maxTokens: 0 };
+      t.largeResults += l.count;
+      t.tokens += l.tokens;
+      t.maxTokens = Math.max(t.maxTokens, l.maxTokens);
+      tools.set(tool, t);
+    }
+    projects.set(key, p);
+
+    if (c.highContextTurns >= CANDIDATE_MIN_TURNS) {
+      candidates.push({
+        sessionId: s.sessionId,
+        project: key,
+        lastTs: s.lastTs,
+        turns: c.turns,
+        peakPromptTokens: c.peakPromptTokens,
+        highContextTurns: c.highContextTurns,
+        highContextCostUsd: c.highContextCostUsd,
+        firstCompactionTurn: c.turnsToFirstCompaction,
+      });
+    }
+  }
+  // Sums were accumulated in avgPromptTokens; turn them into averages.
+  for (const row of [...weeks.values(), ...projects.values()]) row.avgPromptTokens = row.turns > 0 ? Math.round(row.avgPromptTokens / row.turns) : 0;
+  const compacted = sessions.filter(s => s.context.turnsToFirstCompaction !== null).length;
+  const toolRows = [...tools.values()].sort((a, b) => b.tokens - a.tokens);
+  return {
+    turns,
+    avgPromptTokens: turns > 0 ? Math.round(promptTokens / turns) : 0,
+    peakPromptTokens: peak,
+    sessionsCompacted: compacted,
+    compactions: compactions.length,
+    autoCompactions: compactions.filter(e => e.trigger === "auto").length,
+    avgTurnsToFirstCompaction: compacted > 0 ? firstCompactionTurns / compacted : null,
+    avgFreedTokens: freed.length > 0 ? Math.round(freed.reduce((a, b) => a + b, 0) / freed.length) : null,
+    invalidations: sessions.reduce((a, s) => a + s.context.invalidations, 0),
+    invalidatedTokens: sessions.reduce((a, s) => a + s.context.invalidatedTokens, 0),
+    largeResults: toolRows.reduce((a, t) => a + t.largeResults, 0),
+    largeResultTokens: toolRows.reduce((a, t) => a + t.tokens, 0),
+    byWeek: [...weeks.values()].sort((a, b) => a.week.localeCompare(b.week)),
+    byProject: [...projects.values()].filter(p => p.turns > 0).sort((a, b) => b.largeResultTokens + b.invalidatedTokens - (a.largeResultTokens + a.invalidatedTokens) || b.peakPromptTokens - a.peakPromptTokens),
+    byTool: toolRows,
+    compactionCandidates: candidates.sort((a, b) => b.highContextCostUsd - a.highContextCostUsd).slice(0, 10),
+  };
+}
+
+function sortedCounts(m: Map<string, number>): CountRow[] {
+  return [...m.entries()].sort((a, b) => b[1] - a[1]).map(([name, count]) => ({ name, count }));
+}
+
+function sessionRow(s: SessionStats): SessionRow {
+  return {
+    sessionId: s.sessionId,
+    harness: s.harness,
+    user: s.user,
+    project: s.cwd || s.projectDir,
+    firstTs: s.firstTs,
+    lastTs: s.lastTs,
+    userMsgs: s.userMsgs,
+    assistantMsgs: s.assistantMsgs,
+    tokens: totalTokens(s),
+    toolErrors: Array.from(s.toolErrorsByTool.values()).reduce((a, b) => a + b, 0),
+    interruptions: s.interruptions,
+    costUsd: totalCost(s),
+    wasteUsd: [...s.errorWaste.values()].reduce((a, w) => a + w.costUsd, 0),
+  };
+}
+
+/** The filters as echoed in report JSON: ISO bounds, null when unset. */
+export function reportFilters(filters: Filters): Report["filters"] {
+  return {
+    since: filters.since !== undefined ? new Date(filters.since).toISOString() : null,
+    until: filters.until !== undefined ? new Date(filters.until).toISOString() : null,
+    project: filters.project ?? null,
+    model: filters.model ?? null,
+    harness: filters.harness ?? null,
+  };
+}
+
+export function buildReport(sessions: SessionStats[], filters: Filters = {}, opts: ParseOptions = {}): Report {
+  const totalCostAll = sessions.reduce((a, s) => a + totalCost(s), 0);
+  const totalCounterfactual = sessions.reduce((a, s) => a + counterfactualCost(s), 0);
+
+  const allTimestamps = sessions.map(s => s.lastTs).filter((t): t is string => !!t).sort();
+
+  // Per-model
+  type ModelAgg = Omit<ModelRow, "model" | "sessions" | "tokens"> & { sessions: Set<string> };
+  const byModel = new Map<string, ModelAgg>();
+  for (const s of sessions) {
+    for (const [model, t] of s.modelTokens) {
+      const agg = byModel.get(model) ?? { input: 0, output: 0, cacheRead: 0, cacheCreate: 0, cacheCreate5m: 0, cacheCreate1h: 0, costUsd: 0, priced: t.priced, sessions: new Set() };
+      agg.input += t.input;
+      agg.output += t.output;
+      agg.cacheRead += t.cacheRead;
+      agg.cacheCreate += t.cacheCreate;
+      agg.cacheCreate5m += t.cacheCreate5m;
+      agg.cacheCreate1h += t.cacheCreate1h;
+      agg.costUsd += t.costUsd;
+      agg.sessions.add(s.sessionId);
+      byModel.set(model, agg);
+    }
+  }
+
+  // Per-project (cwd or projectDir fallback)
+  const byProject = new Map<string, ProjectRow>();
+  for (const s of sessions) {
+    const key = s.cwd || s.projectDir;
+    const agg = byProject.get(key) ?? { project: key, harnesses: [], sessions: 0, userMsgs: 0, assistantMsgs: 0, tokens: 0, costUsd: 0 };
+    agg.sessions++;
+    agg.userMsgs += s.userMsgs;
+    agg.assistantMsgs += s.assistantMsgs;
+    agg.tokens += totalTokens(s);
+    agg.costUsd += totalCost(s);
+    if (!agg.harnesses.includes(s.harness)) agg.harnesses.push(s.harness);
+    byProject.set(key, agg);
+  }
+
+  // Per-harness
+  const byHarness = new Map<Harness, HarnessRow>();
+  for (const s of sessions) {
+    const agg = byHarness.get(s.harness) ?? { harness: s.harness, sessions: 0, userMsgs: 0, assistantMsgs: 0, tokens: 0, costUsd: 0, toolCalls: 0, toolErrors: 0 };
+    agg.sessions++;
+    agg.userMsgs += s.userMsgs;
+    agg.assistantMsgs += s.assistantMsgs;
+    agg.tokens += totalTokens(s);
+    agg.costUsd += totalCost(s);
+    for (const n of s.toolUses.values()) agg.toolCalls += n;
+    for (const n of s.toolErrorsByTool.values()) agg.toolErrors += n;
+    byHarness.set(s.harness, agg);
+  }
+
+  // Per-user (merged bundles only)
+  const byUser = new Map<string, UserRow>();
+  for (const s of sessions) {
+    if (s.user === null) continue;
+    const agg = byUser.get(s.user) ?? { user: s.user, sessions: 0, userMsgs: 0, assistantMsgs: 0, tokens: 0, costUsd: 0, toolCalls: 0, toolErrors: 0, wasteUsd: 0 };
+    agg.sessions++;
+    agg.userMsgs += s.userMsgs;
+    agg.assistantMsgs += s.assistantMsgs;
+    agg.tokens += totalTokens(s);
+    agg.costUsd += totalCost(s);
+    for (const n of s.toolUses.values()) agg.toolCalls += n;
+    for (const n of s.toolErrorsByTool.values()) agg.toolErrors += n;
+    for (const w of s.errorWaste.values()) agg.wasteUsd += w.costUsd;
+    byUser.set(s.user, agg);
+  }
+
+  // Per-week
+  const byWeek = new Map<string, WeekRow>();
+  for (const s of sessions) {
+    if (!s.lastTs) continue;
+    const w = isoWeek(s.lastTs);
+    const agg = byWeek.get(w) ?? { week: w, sessions: 0, userMsgs: 0, assistantMsgs: 0, tokens: 0, cacheRead: 0, cacheCreate: 0, costUsd: 0 };
+    agg.sessions++;
+    agg.userMsgs += s.userMsgs;
+    agg.assistantMsgs += s.assistantMsgs;
+    agg.tokens += totalTokens(s);
+    agg.costUsd += totalCost(s);
+    for (const t of s.modelTokens.values()) {
+      agg.cacheRead += t.cacheRead;
+      agg.cacheCreate += t.cacheCreate;
+    }
+    byWeek.set(w, agg);
+  }
+
+  // Tool use aggregation
+  const toolUseTotal = new Map<string, number>();
+  const agentTotal = new Map<string, number>();
+  const skillTotal = new Map<string, number>();
+  const cmdTotal = new Map<string, number>();
+  const toolErrorTotal = new Map<string, number>();
+  const fileReReadsTotal = new Map<string, number>();
+  const wasteByCategory = new Map<ErrorCategory, ErrorWaste>();
+  const wasteByProject = new Map<string, ErrorWaste>();
+  const wasteTotal = emptyWaste();
+  let totalInterruptions = 0;
+  let totalBashExitErrors = 0;
+  for (const s of sessions) {
+    for (const [tool, n] of s.toolUses) toolUseTotal.set(tool, (toolUseTotal.get(tool) ?? 0) + n);
+    for (const [a, n] of s.agentInvocations) agentTotal.set(a, (agentTotal.get(a) ?? 0) + n);
+    for (const [sk, n] of s.skillInvocations) skillTotal.set(sk, (skillTotal.get(sk) ?? 0) + n);
+    for (const [c, n] of s.slashCommands) cmdTotal.set(c, (cmdTotal.get(c) ?? 0) + n);
+    for (const [t, n] of s.toolErrorsByTool) toolErrorTotal.set(t, (toolErrorTotal.get(t) ?? 0) + n);
+    for (const [fp, n] of s.fileReads) {
+      if (n > 1) fileReReadsTotal.set(fp, (fileReReadsTotal.get(fp) ?? 0) + (n - 1));
+    }
+    for (const [category, w] of s.errorWaste) {
+      const cat = wasteByCategory.get(category) ?? emptyWaste();
+      const proj = wasteByProject.get(s.cwd || s.projectDir) ?? emptyWaste();
+      addWaste(cat, w);
+      addWaste(proj, w);
+      addWaste(wasteTotal, w);
+      wasteByCategory.set(category, cat);
+      wasteByProject.set(s.cwd || s.projectDir, proj);
+    }
+    totalInterruptions += s.interruptions;
+    totalBashExitErrors += s.bashExitErrors;
+  }
+  const totalToolErrors = Array.from(toolErrorTotal.values()).reduce((a, b) => a + b, 0);
+  const totalToolCalls = Array.from(toolUseTotal.values()).reduce((a, b) => a + b, 0);
+  const totalReReads = Array.from(fileReReadsTotal.values()).reduce((a, b) => a + b, 0);
+
+  const modelRows: ModelRow[] = [...byModel.entries()]
+    .sort((a, b) => b[1].costUsd - a[1].costUsd)
+    .map(([model, a]) => ({
+      model,
+      sessions: a.sessions.size,
+      input: a.input,
+      output: a.output,
+      cacheRead: a.cacheRead,
+      cacheCreate: a.cacheCreate,
+      cacheCreate5m: a.cacheCreate5m,
+      cacheCreate1h: a.cacheCreate1h,
+      tokens: a.input + a.output + a.cacheRead + a.cacheCreate,
+      costUsd: a.costUsd,
+      priced: a.priced,
+    }));
+
+  const sessionRows = sessions.map(sessionRow);
+
+  return {
+    schema: REPORT_SCHEMA,
+    schemaVersion: REPORT_SCHEMA_VERSION,
+    generatedAt: new Date().toISOString(),
+    period: { from: allTimestamps[0]?.slice(0, 10) ?? null, to: allTimestamps[allTimestamps.length - 1]?.slice(0, 10) ?? null },
+    filters: reportFilters(filters),
+    diagnostics: {
+      raw: opts.raw ?? false,
+      duplicateAssistantRecords: sessions.reduce((a, s) => a + s.duplicateFragments, 0),
+      replayedAssistantRecords: sessions.reduce((a, s) => a + s.replayedResponses, 0),
+    },
+    summary: {
+      sessions: sessions.length,
+      userMsgs: sessions.reduce((a, s) => a + s.userMsgs, 0),
+      assistantMsgs: sessions.reduce((a, s) => a + s.assistantMsgs, 0),
+      tokens: sessions.reduce((a, s) => a + totalTokens(s), 0),
+      input: modelRows.reduce((a, m) => a + m.input, 0),
+      cacheRead: modelRows.reduce((a, m) => a + m.cacheRead, 0),
+      cacheCreate: modelRows.reduce((a, m) => a + m.cacheCreate, 0),
+      output: modelRows.reduce((a, m) => a + m.output, 0),
+      costUsd: totalCostAll,
+      counterfactualCostUsd: totalCounterfactual,
+      cacheSavingsUsd: totalCounterfactual - totalCostAll,
+    },
+    byModel: modelRows,
+    unpricedModels: modelRows
+      .filter(m => !m.priced && m.tokens > 0)
+      .sort((a, b) => b.tokens - a.tokens)
+      .map(m => ({ model: m.model, sessions: m.sessions, tokens: m.tokens })),
+    byHarness: [...byHarness.values()].sort((a, b) => b.costUsd - a.costUsd),
+    byProject: [...byProject.values()].sort((a, b) => b.costUsd - a.costUsd),
+    byUser: [...byUser.values()].sort((a, b) => b.costUsd - a.costUsd),
+    byWeek: [...byWeek.values()].sort((a, b) => a.week.localeCompare(b.week)),
+    tools: sortedCounts(toolUseTotal),
+    agents: sortedCounts(agentTotal),
+    subagents: subagentRows(sessions, agentTotal),
+    skills: sortedCounts(skillTotal),
+    skillHints: skillHintRows(sessions),
+    commands: sortedCounts(cmdTotal),
+    commandCosts: commandCostRows(sessions),
+    flowPlans: flowPlanRows(sessions),
+    errors: {
+      toolCalls: totalToolCalls,
+      toolErrors: totalToolErrors,
+      bashExitErrors: totalBashExitErrors,
+      interruptions: totalInterruptions,
+      reReads: totalReReads,
+      wasteApproxUsd: totalCostAll * (totalToolErrors / Math.max(totalToolCalls, 1)),
+      retryLoops: wasteTotal.retryLoops,
+      retries: wasteTotal.retries,
+      wasteTokens: Math.round(wasteTotal.tokens),
+      wasteUsd: wasteTotal.costUsd,
+      byCategory: [...wasteByCategory.entries()]
+        .map(([category, w]) => ({ category, ...w, tokens: Math.round(w.tokens) }))
+        .sort((a, b) => b.costUsd - a.costUsd || b.errors - a.errors),
+      byProject: [...wasteByProject.entries()]
+        .map(([project, w]) => ({ project, ...w, tokens: Math.round(w.tokens) }))
+        .sort((a, b) => b.costUsd - a.costUsd || b.errors - a.errors),
+      byTool: [...toolErrorTotal.entries()]
+        .sort((a, b) => b[1] - a[1])
+        .map(([tool, errors]) => ({ tool, errors, calls: toolUseTotal.get(tool) ?? 0 })),
+      topReReads: [...fileReReadsTotal.entries()]
+        .sort((a, b) => b[1] - a[1])
+        .slice(0, 10)
+        .map(([file, reReads]) => ({ file, reReads })),
+      topSessions: sessionRows.filter(r => r.toolErrors > 0).sort((a, b) => b.toolErrors - a.toolErrors).slice(0, 10),
+    },
+    context: contextSection(sessions),
+    topSessions: [...sessionRows].sort((a, b) => b.costUsd - a.costUsd).slice(0, 10),
+  };
+}
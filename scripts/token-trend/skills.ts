@@ -0,0 +1,85 @@
+// Skill-activation hint effectiveness. The UserPromptSubmit hook (skill-activation.ts)
+// injects `Skill("name")` hints into the user records of a prompt; this pairs them
+// with the Skill calls the main agent makes afterwards. A hint counts as followed when
+// the skill is invoked in the hinted turn or the HINT_FOLLOW_TURNS typed prompts after
+// it; an invocation counts as hinted when such a hint precedes it. Per skill that gives
+// precision (hints followed / hints) and recall (hinted invocations / invocations) of
+// its activation keywords. Subagent Skill calls are left out: hints reach the main agent.
+
+import type { Message } from "./parse.ts";
+
+/** Typed prompts after the hinted one in which an invocation still counts as following it. */
+export const HINT_FOLLOW_TURNS = 2;
+
+// Hook output reaches the transcript inside one of these tags. A <system-reminder> also
+// carries CLAUDE.md and other context that may name skills, so only the ones the
+// harness labels as UserPromptSubmit hook output count.
+const HOOK_BLOCK_RE = /<(user-prompt-submit-hook|system-reminder)>([\s\S]*?)<\/\1>/g;
+const HOOK_REMINDER_RE = /^\s*UserPromptSubmit hook\b/;
+const HINT_RE = /\bSkill\(\s*(?:\{?\s*skill\s*:\s*)?["'`]?([A-Za-z0-9][\w:.-]*)/g;
+
+export type SkillHintStats = {
+  hinted: number;
+  /** Hints followed by an invocation of the skill within the window. */
+  followed: number;
+  invoked: number;
+  /** Invocations within the window of a hint for the same skill. */
+  invokedAfterHint: number;
+};
+
+/** Skills named in the hook-injected parts of a user record's text. */
+export function skillHints(text: string): string[] {
+  const names: string[] = [];
+  for (const block of text.matchAll(HOOK_BLOCK_RE)) {
+    if (block[1] === "system-reminder" && !HOOK_REMINDER_RE.test(block[2])) continue;
+    for (const h of block[2].matchAll(HINT_RE)) if (!names.includes(h[1])) names.push(h[1]);
+  }
+  return names;
+}
+
+/** Per-session bookkeeping: typed-prompt count and the last hint per skill. */
+export type HintTracker = {
+  turn: number;
+  /** Hints seen since the last assistant turn; they belong to the prompt it answers. */
+  pending: Set<string>;
+  open: Map<string, { turn: number; followed: boolean }>;
+};
+
+export function newHintTracker(): HintTracker {
+  return { turn: 0, pending: new Set(), open: new Map() };
+}
+
+function statsFor(stats: Map<string, SkillHintStats>, skill: string): SkillHintStats {
+  const s = stats.get(skill) ?? { hinted: 0, followed: 0, invoked: 0, invokedAfterHint: 0 };
+  stats.set(skill, s);
+  return s;
+}
+
+/** Counts typed prompts and collects the hints a main-thread user record carries. */
+export function trackHintRecord(t: HintTracker, m: Message) {
+  if (m.userPrompt) t.turn++;
+  for (const skill of m.skillHints) t.pending.add(skill);
+}
+
+/** Registers pending hints at the current turn and matches the message's Skill calls against open hints. */
+export function trackHintResponse(t: HintTracker, stats: Map<string, SkillHintStats>, m: Message) {
+  for (const skill of t.pending) {
+    const open = t.open.get(skill);
+    if (open?.turn === t.turn) continue;
+    statsFor(stats, skill).hinted++;
+    t.open.set(skill, { turn: t.turn, followed: false });
+  }
+  t.pending.clear();
+  for (const call of m.toolCalls) {
+    if (!call.skill) continue;
+    const s = statsFor(stats, call.skill);
+    s.invoked++;
+    const hint = t.open.get(call.skill);
+    if (!hint || t.turn - hint.turn > HINT_FOLLOW_TURNS) continue;
+    s.invokedAfterHint++;
+    if (!hint.followed) {
+      hint.followed = true;
+      s.followed++;
+    }
+  }
+}
@@ -0,0 +1,137 @@
+// Source adapters: where each harness keeps its session logs and how their records
+// become Messages. Everything downstream (index, stats, report) only sees Messages,
+// so a new harness needs an adapter here and nothing else.
+
+import { existsSync, readFileSync } from "node:fs";
+import { join } from "node:path";
+import { codexAdapter } from "./codex.ts";
+import type { Filters } from "./filters.ts";
+import { grokAdapter } from "./grok.ts";
+import {
+  HARNESSES,
+  keepSession,
+  listTranscripts,
+  normalizeRecord,
+  sessionFromGroup,
+  transcriptSessionId,
+  type Harness,
+  type Message,
+  type MessageGroup,
+  type ParseOptions,
+  type SessionStats,
+  type TranscriptFile,
+} from "./parse.ts";
+import { homeDir } from "./paths.ts";
+
+/** Per-file record normaliser: fed every JSONL record in order, then flushed at the end. */
+export type RecordNormalizer = { push(obj: any): Message[]; flush(): Message[] };
+
+export type SourceAdapter = {
+  harness: Harness;
+  defaultRoot(): string;
+  listTranscripts(root: string): TranscriptFile[];
+  normalizer(): RecordNormalizer;
+  /** Records normalise independently, so a grown file can be resumed at its last parsed line. */
+  resumable: boolean;
+};
+
+/** One harness log root to read. */
+export type Source = { adapter: SourceAdapter; root: string };
+
+export const claudeAdapter: SourceAdapter = {
+  harness: "claude",
+  defaultRoot: () => join(homeDir(), ".claude", "projects"),
+  listTranscripts,
+  normalizer: () => ({
+    push: obj => {
+      const m = normalizeRecord(obj);
+      return m ? [m] : [];
+    },
+    flush: () => [],
+  }),
+  resumable: true,
+};
+
+export const ADAPTERS: Record<Harness, SourceAdapter> = { claude: claudeAdapter, codex: codexAdapter, grok: grokAdapter };
+
+/**
+ * The roots to read: every harness given an explicit root, plus each other harness
+ * whose default root exists. `only` (comma-separated names) restricts the harnesses.
+ */
+export function resolveSources(roots: Partial<Record<Harness, string>>, only?: string): Source[] {
+  const wanted = only ? only.split(",").map(h => h.trim().toLowerCase()) : [...HARNESSES];
+  for (const h of wanted) {
+    if (!(HARNESSES as readonly string[]).includes(h)) throw new Error(`unknown harness "${h}" (expected ${HARNESSES.join("|")})`);
+  }
+  const sources: Source[] = [];
+  for (const h of HARNESSES) {
+    if (!wanted.includes(h)) continue;
+    const adapter = ADAPTERS[h];
+    const root = roots[h] ?? adapter.defaultRoot();
+    if (roots[h] !== undefined || existsSync(root)) sources.push({ adapter, root });
+  }
+  return sources;
+}
+
+/** Normalises a whole log file's JSONL text; malformed lines are skipped. */
+export function parseFile(adapter: SourceAdapter, content: string): Message[] {
+  const normalizer = adapter.normalizer();
+  const out: Message[] = [];
+  for (const line of content.split("\n")) {
+    if (!line.trim()) continue;
+    let obj: any;
+    try { obj = JSON.parse(line); } catch { continue; }
+    for (const m of normalizer.push(obj)) out.push(m);
+  }
+  for (const m of normalizer.flush()) out.push(m);
+  return out;
+}
+
+/** Sort key shared with the index: harness, project dir, session id. */
+export function groupOrder(g: { harness: string; projectDir: string; sessionId: string }): string {
+  return [g.harness, g.projectDir, g.sessionId].join("\0");
+}
+
+/**
+ * Reads logs straight from disk, bypassing the index, grouped per session.
+ * `sessionMatch` limits which sessions are kept (subagent files are still parsed to
+ * find their parent).
+ */
+export function loadMessageGroups(sources: Source[], sessionMatch: (sessionId: string) => boolean = () => true): MessageGroup[] {
+  const groups = new Map<string, MessageGroup>();
+  for (const { adapter, root } of sources) {
+    if (!existsSync(root)) continue;
+    // Main transcripts first so a session's own records precede its subagent files.
+    const files = adapter.listTranscripts(root).sort((a, b) => Number(a.sidechain) - Number(b.sidechain));
+    for (const f of files) {
+      if (!f.sidechain && !sessionMatch(f.sessionId)) continue;
+      let content: string;
+      try { content = readFileSync(f.path, "utf8"); } catch { continue; }
+
+      const messages = parseFile(adapter, content);
+      const sessionId = transcriptSessionId(f, messages);
+      if (!sessionMatch(sessionId)) continue;
+      const g: MessageGroup = { sessionId, projectDir: f.projectDir, harness: adapter.harness, messages: [] };
+      const key = groupOrder(g);
+      const existing = groups.get(key) ?? g;
+      for (const m of messages) existing.messages.push(m);
+      groups.set(key, existing);
+    }
+  }
+  // Same order as the index so both paths report ties alike.
+  return [...groups.entries()].sort((a, b) => (a[0] < b[0] ? -1 : a[0] > b[0] ? 1 : 0)).map(([, g]) => g);
+}
+
+/**
+ * Parses every log straight from disk, bypassing the index. Subagent files join their
+ * parent session; responses a resumed session copied from another are counted once.
+ */
+export function loadSessions(sources: Source[], filters: Filters = {}, opts: ParseOptions = {}): SessionStats[] {
+  const sessions: SessionStats[] = [];
+  const load = { ...opts, responses: opts.responses ?? new Map<string, string>() };
+  for (const g of loadMessageGroups(sources)) {
+    const s = sessionFromGroup(g, filters, load);
+    if (keepSession(s, filters)) sessions.push(s);
+  }
+  return sessions;
+}
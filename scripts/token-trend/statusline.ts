@@ -0,0 +1,111 @@
+// statusLine mode: one line for Claude Code's status bar, recomputed on every refresh.
+//
+// Claude Code pipes a JSON payload (session_id, transcript_path, model, cwd, ...) to
+// the statusLine command. Only the current transcript (plus its subagent files) is
+// parsed; today's cost and the active 5-hour block also count the other sessions
+// already in the index, read as-is (no sync) so a refresh stays well under a second.
+
+import { existsSync, readFileSync, readdirSync } from "node:fs";
+import { basename, dirname, join } from "node:path";
+import { buildBlocks, usageEntries, BLOCK_HOURS } from "./blocks.ts";
+import { parseLines, sessionFromGroup, type MessageGroup, type ParseOptions } from "./parse.ts";
+import { totalCost } from "./pricing.ts";
+
+export const STATUSLINE_FIELDS = ["model", "session", "today", "block", "cache", "errors"] as const;
+export type StatuslineField = (typeof STATUSLINE_FIELDS)[number];
+
+export type StatuslineInput = { sessionId: string; transcriptPath: string; model: string | null; cwd: string | null };
+
+export type StatuslineData = {
+  model: string | null;
+  sessionCostUsd: number;
+  todayCostUsd: number;
+  /** Minutes left in the active 5-hour block, null when none is open. */
+  blockRemainingMinutes: number | null;
+  /** cacheRead / (input + cacheRead + cacheCreate) of this session, null before any usage. */
+  cacheHitPct: number | null;
+  /** Failed tool results as the error taxonomy counts them: is_error, or a Bash exit code != 0. */
+  toolErrors: number;
+};
+
+/** Reads the statusLine hook payload. Throws when session_id or transcript_path is missing. */
+export function parseStatuslineInput(text: string): StatuslineInput {
+  let obj: any;
+  try { obj = JSON.parse(text); } catch { throw new Error("statusline expects the statusLine JSON payload on stdin"); }
+  if (typeof obj?.session_id !== "string" || typeof obj?.transcript_path !== "string") {
+    throw new Error("statusline payload has no session_id/transcript_path");
+  }
+  return {
+    sessionId: obj.session_id,
+    transcriptPath: obj.transcript_path,
+    model: obj.model?.display_name ?? obj.model?.id ?? null,
+    cwd: obj.workspace?.current_dir ?? obj.cwd ?? null,
+  };
+}
+
+/** The projects dir holding a transcript: `<projects>/<project>/<session>.jsonl`. */
+export function projectsDirOf(transcriptPath: string): string {
+  return dirname(dirname(transcriptPath));
+}
+
+/** The current session's messages: its transcript, then `<session>/subagents/*.jsonl`. */
+export function readSessionGroup(input: StatuslineInput): MessageGroup {
+  const messages = existsSync(input.transcriptPath) ? parseLines(readFileSync(input.transcriptPath, "utf8")) : [];
+  const subDir = join(dirname(input.transcriptPath), input.sessionId, "subagents");
+  if (existsSync(subDir)) {
+    for (const f of readdirSync(subDir)) {
+      if (!f.endsWith(".jsonl")) continue;
+      try { messages.push(...parseLines(readFileSync(join(subDir, f), "utf8"))); } catch { continue; }
+    }
+  }
+  return { sessionId: input.sessionId, projectDir: basename(dirname(input.transcriptPath)), harness: "claude", messages };
+}
+
+/**
+ * Figures for the status line. `others` are the other sessions' message groups. The
+ * active block is rebuilt from the last gap of BLOCK_HOURS or more without usage (where
+ * block chaining restarts), so they should reach back past it; without one it starts
+ * at the oldest usage given.
+ */
+export function statuslineData(
+  input: StatuslineInput,
+  current: MessageGroup,
+  others: Iterable<MessageGroup>,
+  opts: ParseOptions = {},
+  now = Date.now(),
+): StatuslineData {
+  const s = sessionFromGroup(current, {}, opts);
+  let fresh = 0, cacheRead = 0, cacheCreate = 0;
+  for (const t of s.modelTokens.values()) {
+    fresh += t.input;
+    cacheRead += t.cacheRead;
+    cacheCreate += t.cacheCreate;
+  }
+  const prompt = fresh + cacheRead + cacheCreate;
+
+  const startOfDay = new Date(now).setHours(0, 0, 0, 0);
+  const entries = usageEntries([current, ...others], {}, opts);
+  let chainStart = entries.length - 1;
+  while (chainStart > 0 && entries[chainStart].ts - entries[chainStart - 1].ts < BLOCK_HOURS * 3_600_000) chainStart--;
+  const active = buildBlocks(entries.slice(Math.max(0, chainStart)), {}, {}, now).active;
+
+  return {
+    model: input.model,
+    sessionCostUsd: totalCost(s),
+    todayCostUsd: entries.reduce((a, e) => a + (e.ts >= startOfDay ? e.costUsd : 0), 0),
+    blockRemainingMinutes: active?.projection?.remainingMinutes ?? null,
+    cacheHitPct: prompt > 0 ? (cacheRead / prompt) * 100 : null,
+    toolErrors: [...s.errorWaste.values()].reduce((a, w) => a + w.errors, 0),
+  };
+}
+
+/** Parses `--fields` (comma-separated); throws on unknown names. */
+export function parseStatuslineFields(value: string): StatuslineField[] {
+  const fields = value.split(",").map(f => f.trim()).filter(Boolean);
+  for (const f of fields) {
+    if (!(STATUSLINE_FIELDS as readonly string[]).includes(f)) {
+      throw new Error(`unknown statusline field "${f}" (expected ${STATUSLINE_FIELDS.join(",")})`);
+    }
+  }
+  return fields as StatuslineField[];
+}
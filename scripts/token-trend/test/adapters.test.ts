@@ -0,0 +1,99 @@
+import { afterEach, beforeEach, describe, expect, test } from "bun:test";
+import { appendFileSync, cpSync, mkdtempSync, rmSync, statSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { aggregate, loadSessions, loadSessionsFromIndex, openIndex, render, resolveSources, syncIndex } from "../lib.ts";
+
+const FIXTURES = join(import.meta.dir, "fixtures");
+const CODEX_SESSION = "0199a1b2-c3d4-7e5f-8a9b-0c1d2e3f4a5b";
+const CODEX_FILE = join("2026", "03", "05", `rollout-2026-03-05T10-00-00-${CODEX_SESSION}.jsonl`);
+
+function only<T>(list: T[]): T {
+  expect(list).toHaveLength(1);
+  return list[0];
+}
+
+describe("Codex rollouts", () => {
+  const s = only(loadSessions(resolveSources({ codex: join(FIXTURES, "codex") }, "codex")));
+
+  test("the session takes its id from the rollout and its cwd from session_meta", () => {
+    expect([s.harness, s.sessionId, s.cwd]).toEqual(["codex", CODEX_SESSION, "/work/codex-app"]);
+    expect([s.firstTs, s.lastTs]).toEqual(["2026-03-05T10:00:00.000Z", "2026-03-05T10:00:09.000Z"]);
+  });
+
+  test("each token_count is one turn; cached input becomes cache reads and repeats are dropped", () => {
+    expect(s.assistantMsgs).toBe(2);
+    expect(s.modelTokens.get("gpt-test")).toMatchObject({ input: 500, cacheRead: 2200, output: 130, cacheCreate: 0, priced: false });
+  });
+
+  test("injected context is not a prompt; shell and apply_patch line up with Bash and Edit", () => {
+    // The typed prompt and the two call outputs; <environment_context> is dropped.
+    expect(s.userMsgs).toBe(3);
+    expect(Object.fromEntries(s.toolUses)).toEqual({ Bash: 1, Edit: 1 });
+    expect(s.bashExitErrors).toBe(1);
+    expect(s.toolErrorsByTool.size).toBe(0);
+  });
+});
+
+describe("Grok Build sessions", () => {
+  const s = only(loadSessions(resolveSources({ grok: join(FIXTURES, "grok") }, "grok")));
+
+  test("the session is named after its path under the root", () => {
+    expect([s.harness, s.sessionId, s.projectDir, s.cwd]).toEqual(["grok", "grok-app/session-1", "grok", "/work/grok-app"]);
+  });
+
+  test("wrapped and bare chat messages both count; unknown lines are skipped", () => {
+    // One prompt and two tool results; the summary line is not a chat message.
+    expect([s.userMsgs, s.assistantMsgs]).toEqual([3, 3]);
+    expect(Object.fromEntries(s.slashCommands)).toEqual({ review: 1 });
+  });
+
+  test("cached prompt tokens become cache reads; output covers reasoning (total - prompt)", () => {
+    // Outputs: max(40, 1000 - 900) + 20 + 30.
+    expect(s.modelTokens.get("grok-test")).toMatchObject({ input: 500, cacheRead: 2500, output: 150, cacheCreate: 0 });
+  });
+
+  test("tool names and results map onto Claude's", () => {
+    expect(Object.fromEntries(s.toolUses)).toEqual({ Read: 1, Bash: 1 });
+    expect(s.fileReads.get("/work/grok-app/README.md")).toBe(1);
+    expect(s.bashExitErrors).toBe(1);
+  });
+});
+
+describe("index sync of non-resumable adapters", () => {
+  let dir: string;
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), "token-trend-adapters-"));
+    cpSync(join(FIXTURES, "codex"), join(dir, "codex"), { recursive: true });
+    cpSync(join(FIXTURES, "grok"), join(dir, "grok"), { recursive: true });
+  });
+  afterEach(() => rmSync(dir, { recursive: true, force: true }));
+
+  const reportJson = (sessions: ReturnType<typeof loadSessions>) => {
+    const { generatedAt, ...rest } = JSON.parse(render(aggregate(sessions), "json"));
+    return rest;
+  };
+
+  test("Codex and Grok logs go through syncIndex and match --no-index, and a change re-parses the file whole", () => {
+    const sources = resolveSources({ codex: join(dir, "codex"), grok: join(dir, "grok") }, "codex,grok");
+    const db = openIndex(join(dir, "index.sqlite"));
+    try {
+      expect(syncIndex(db, sources)).toMatchObject({ transcripts: 2, updated: 2, failed: [] });
+      expect(reportJson(loadSessionsFromIndex(db, sources))).toEqual(reportJson(loadSessions(sources)));
+
+      const codexPath = join(dir, "codex", CODEX_FILE);
+      appendFileSync(
+        codexPath,
+        JSON.stringify({ timestamp: "2026-03-05T10:00:10.000Z", type: "event_msg", payload: { type: "token_count", info: { last_token_usage: { input_tokens: 10, output_tokens: 5 }, total_token_usage: { total_tokens: 2845 } } } }) + "\n",
+      );
+      const sync = syncIndex(db, sources);
+      expect(sync.updated).toBe(1);
+      expect(sync.bytesParsed).toBe(statSync(codexPath).size);
+      const indexed = loadSessionsFromIndex(db, sources);
+      expect(indexed.find(s => s.harness === "codex")!.assistantMsgs).toBe(3);
+      expect(reportJson(indexed)).toEqual(reportJson(loadSessions(sources)));
+    } finally {
+      db.close();
+    }
+  });
+});
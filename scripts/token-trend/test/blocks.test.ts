@@ -0,0 +1,67 @@
+import { describe, expect, test } from "bun:test";
+import { join } from "node:path";
+import { aggregate, buildBlocks, loadMessageGroups, loadPricing, loadSessions, resolveSources, usageEntries, type ParseOptions, type UsageEntry } from "../lib.ts";
+
+const FIXTURES = join(import.meta.dir, "fixtures");
+const opts: ParseOptions = { pricing: loadPricing(join(FIXTURES, "pricing.json")) };
+
+const at = (hhmm: string) => Date.parse(`2026-06-15T${hhmm}:00.000Z`);
+const entry = (hhmm: string, tokens: number, costUsd = tokens / 1000, sessionId = "s1"): UsageEntry => ({ ts: at(hhmm), sessionId, model: "claude-test-20260101", tokens, costUsd });
+
+describe("block boundaries", () => {
+  const entries = [entry("10:20", 100), entry("12:00", 100, 0.1, "s2"), entry("14:59", 100), entry("15:00", 100), entry("21:30", 100)];
+  const { blocks, active } = buildBlocks(entries, {}, {}, at("23:59"));
+
+  test("a block opens at the hour of its first turn and lasts five hours", () => {
+    expect(blocks.map(b => [b.start.slice(11, 16), b.end.slice(11, 16), b.messages])).toEqual([
+      ["10:00", "15:00", 3],
+      ["15:00", "20:00", 1],
+      ["21:00", "02:00", 1],
+    ]);
+  });
+
+  test("a turn at the closing instant opens the next block", () => {
+    expect(blocks[1].firstTs).toBe(new Date(at("15:00")).toISOString());
+    expect(blocks[0].lastTs).toBe(new Date(at("14:59")).toISOString());
+  });
+
+  test("totals, sessions and models per block", () => {
+    expect(blocks[0]).toMatchObject({ sessions: 2, tokens: 300, models: ["claude-test"] });
+    expect(blocks[0].costUsd).toBeCloseTo(0.3, 10);
+  });
+
+  test("the block containing now is active; rates need a minute of activity", () => {
+    expect(active).toBe(blocks[2]);
+    expect(blocks.filter(b => b.active)).toHaveLength(1);
+    expect(blocks[1]).toMatchObject({ tokensPerHour: null, costPerHourUsd: null, projection: null });
+    // 10:20 → 14:59: 300 tokens over 4h39m.
+    expect(blocks[0].tokensPerHour).toBeCloseTo(300 / (279 / 60), 10);
+  });
+});
+
+describe("active block projection", () => {
+  const entries = [entry("15:00", 600), entry("15:30", 600)];
+
+  test("the burn rate since the first turn is extended to the end of the block", () => {
+    const { active } = buildBlocks(entries, {}, { tokens: 5000 }, at("16:00"));
+    expect(active!.tokensPerHour).toBe(1200);
+    expect(active!.projection).toMatchObject({ remainingMinutes: 240, tokens: 6000, overLimit: true });
+    expect(active!.projection!.costUsd).toBeCloseTo(6, 10);
+    expect(active!.overLimit).toBe(false);
+  });
+
+  test("no block is active once the last one has closed", () => {
+    const report = buildBlocks(entries, {}, {}, at("20:00"));
+    expect(report.active).toBeNull();
+    expect(report.blocks[0].projection).toBeNull();
+  });
+});
+
+test("per-turn entries add up to the report's cost for the same data", () => {
+  const sources = resolveSources({ claude: join(FIXTURES, "projects") }, "claude");
+  const entries = usageEntries(loadMessageGroups(sources), {}, opts);
+  const report = aggregate(loadSessions(sources, {}, opts), {}, opts);
+  expect(entries.map(e => e.ts)).toEqual([...entries.map(e => e.ts)].sort((a, b) => a - b));
+  expect(entries.reduce((a, e) => a + e.costUsd, 0)).toBeCloseTo(report.summary.costUsd, 10);
+  expect(entries.reduce((a, e) => a + e.tokens, 0)).toBe(report.summary.tokens);
+});
@@ -0,0 +1,106 @@
+import { afterAll, describe, expect, test } from "bun:test";
+import { mkdirSync, mkdtempSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { checkBudgets, loadMessageGroups, loadPricing, periodEnd, periodStart, resolveSources, type Budget, type BudgetFile, type ParseOptions } from "../lib.ts";
+
+const FIXTURES = join(import.meta.dir, "fixtures");
+const PRICING = join(FIXTURES, "pricing.json");
+const CLI = join(import.meta.dir, "..", "..", "token-trend.ts");
+const opts: ParseOptions = { pricing: loadPricing(PRICING) };
+const groups = loadMessageGroups(resolveSources({ claude: join(FIXTURES, "projects") }, "claude"));
+
+const budgets = (...list: Budget[]): BudgetFile => ({ version: 1, warnAt: 0.8, budgets: list });
+const used = (file: BudgetFile, now: number) => checkBudgets(file, groups, opts, now).budgets.map(b => b.used);
+
+describe("budget periods", () => {
+  // Periods are local calendar periods; 2026-06-15 is a Monday.
+  const saturday = new Date(2026, 5, 20, 12).getTime();
+
+  test("start and end bracket the calendar period containing now", () => {
+    expect([periodStart("daily", saturday), periodEnd("daily", saturday)]).toEqual([new Date(2026, 5, 20).getTime(), new Date(2026, 5, 21).getTime()]);
+    expect([periodStart("weekly", saturday), periodEnd("weekly", saturday)]).toEqual([new Date(2026, 5, 15).getTime(), new Date(2026, 5, 22).getTime()]);
+    expect([periodStart("monthly", saturday), periodEnd("monthly", saturday)]).toEqual([new Date(2026, 5, 1).getTime(), new Date(2026, 6, 1).getTime()]);
+    const december = new Date(2026, 11, 31, 23, 59).getTime();
+    expect(periodEnd("monthly", december)).toBe(new Date(2027, 0, 1).getTime());
+  });
+
+  test("only usage inside the period is charged", () => {
+    const file = budgets({ period: "daily", unit: "usd", limit: 1 }, { period: "weekly", unit: "usd", limit: 1 }, { period: "monthly", unit: "tokens", limit: 1e6 });
+    // The errors session (2026-06-15) falls in this week and month, not today.
+    const [daily, weekly, monthly] = used(file, saturday);
+    expect(daily).toBe(0);
+    expect(weekly).toBeCloseTo(0.00505, 10);
+    expect(monthly).toBe(5 * 5110);
+  });
+
+  test("usage after the current period is not charged to it", () => {
+    // The commands session is dated 2027-01-01: it belongs to January, not December 2026.
+    const december = new Date(2026, 11, 20, 12).getTime();
+    expect(used(budgets({ period: "monthly", unit: "usd", limit: 1 }), december)).toEqual([0]);
+    const january = new Date(2027, 0, 20, 12).getTime();
+    expect(used(budgets({ period: "monthly", unit: "usd", limit: 1 }), january)[0]).toBeCloseTo(0.00449, 10);
+  });
+
+  test("status follows the ratio and warnAt; scopes narrow the usage", () => {
+    const now = new Date(2026, 5, 20, 12).getTime();
+    const check = checkBudgets(
+      budgets(
+        { period: "weekly", unit: "usd", limit: 0.005 },
+        { period: "weekly", unit: "usd", limit: 0.006 },
+        { period: "weekly", unit: "usd", limit: 1 },
+        { period: "weekly", unit: "usd", limit: 1, project: "/work/beta" },
+      ),
+      groups,
+      opts,
+      now,
+    );
+    expect(check.budgets.map(b => b.status)).toEqual(["over", "near", "ok", "ok"]);
+    expect(check.budgets[3].used).toBe(0);
+    expect([check.exceeded, check.near]).toEqual([1, 1]);
+  });
+});
+
+describe("check exit codes", () => {
+  const dir = mkdtempSync(join(tmpdir(), "token-trend-check-"));
+  const projects = join(dir, "projects");
+  afterAll(() => rmSync(dir, { recursive: true, force: true }));
+
+  // A turn a second ago, so it lands in every current period whenever the test runs.
+  mkdirSync(join(projects, "-work-now"), { recursive: true });
+  const ts = new Date(Date.now() - 1000).toISOString();
+  writeFileSync(
+    join(projects, "-work-now", "now.jsonl"),
+    [
+      { type: "user", sessionId: "now", cwd: "/work/now", timestamp: ts, message: { role: "user", content: "hi" } },
+      { type: "assistant", sessionId: "now", cwd: "/work/now", timestamp: ts, requestId: "r1", message: { id: "m1", model: "claude-test", usage: { input_tokens: 1000, output_tokens: 1000 }, content: [{ type: "text", text: "hello" }] } },
+    ]
+      .map(r => JSON.stringify(r))
+      .join("\n") + "\n",
+  );
+
+  function check(budgetsJson: unknown): number {
+    const path = join(dir, "budgets-" + Math.random().toString(36).slice(2) + ".json");
+    writeFileSync(path, JSON.stringify(budgetsJson));
+    const run = Bun.spawnSync([process.execPath, CLI, "check", "--budgets", path, "--projects-dir", projects, "--harness", "claude", "--pricing", PRICING, "--no-index", "--format", "json"], {
+      env: { ...process.env, HOME: dir, USERPROFILE: dir },
+      stdout: "pipe",
+      stderr: "pipe",
+    });
+    return run.exitCode;
+  }
+
+  test("0 when every budget is under its limit", () => {
+    expect(check({ version: 1, budgets: [{ period: "daily", unit: "tokens", limit: 1e6 }] })).toBe(0);
+  });
+
+  test("1 when a budget is exceeded", () => {
+    expect(check({ version: 1, budgets: [{ period: "daily", unit: "tokens", limit: 1e6 }, { period: "monthly", unit: "tokens", limit: 100 }] })).toBe(1);
+  });
+
+  test("2 on an invalid budgets file", () => {
+    expect(check({ version: 2, budgets: [] })).toBe(2);
+    expect(check({ version: 1, budgets: [{ period: "yearly", unit: "usd", limit: 1 }] })).toBe(2);
+    expect(check({ version: 1, budgets: [{ period: "daily", unit: "usd", limit: -1 }] })).toBe(2);
+  });
+});
@@ -0,0 +1,50 @@
+import { describe, expect, test } from "bun:test";
+import { join } from "node:path";
+import { aggregate, loadPricing, loadSessions, resolveSources, type ParseOptions } from "../lib.ts";
+
+// -work-shop/flow-a.jsonl runs /flow on plan 012-billing: a Task call whose run is in
+// flow-a/subagents/agent-ag1.jsonl, a failing Bash call, then a typed prompt that ends
+// the span. flow-b.jsonl resumes that plan (found in a Read path), runs /flow without a
+// plan and then /commit-message. All at the fixture's March rates.
+const FIXTURES = join(import.meta.dir, "fixtures");
+const opts: ParseOptions = { pricing: loadPricing(join(FIXTURES, "pricing.json")) };
+const sessions = loadSessions(resolveSources({ claude: join(FIXTURES, "commands") }, "claude"), {}, opts);
+const session = (id: string) => sessions.find(s => s.sessionId === id)!;
+const report = aggregate(sessions, {}, opts);
+const usd = (input: number, output: number) => (input * 3 + output * 15) / 1_000_000;
+
+describe("command spans", () => {
+  test("a span is charged everything up to the next typed prompt, its subagent run included", () => {
+    const [flow] = session("flow-a").commandSpans;
+    expect(flow).toMatchObject({ command: "flow", plan: "012-billing", turns: 3, tokens: 700, toolCalls: 2, subagents: 1, errors: 1 });
+    // Main turns 100/50 and 200/20, the reviewer's 300/30; the turn after "thanks" is left out.
+    expect(flow.costUsd).toBeCloseTo(usd(600, 100), 12);
+  });
+
+  test("a /flow without a plan in its args takes the first one its tool calls reference", () => {
+    expect(session("flow-b").commandSpans.map(s => [s.command, s.plan, s.tokens])).toEqual([
+      ["flow", "012-billing", 60],
+      ["flow", null, 44],
+      ["commit-message", null, 33],
+    ]);
+  });
+});
+
+describe("report rollups", () => {
+  test("per-command totals over every invocation", () => {
+    const row = (command: string) => report.commandCosts.find(r => r.command === command)!;
+    expect(row("flow")).toMatchObject({ invocations: 3, turns: 5, tokens: 804, subagents: 1, errors: 1 });
+    expect(row("flow").costUsd).toBeCloseTo(usd(690, 114), 12);
+    expect(row("flow").costPerUseUsd).toBeCloseTo(usd(690, 114) / 3, 12);
+    expect(row("commit-message").costUsd).toBeCloseTo(usd(30, 3), 12);
+  });
+
+  test("/flow runs roll up per plan across sessions", () => {
+    expect(report.flowPlans.map(r => [r.plan, r.runs, r.sessions, r.tokens, r.firstRunTs, r.lastRunTs])).toEqual([
+      ["012-billing", 2, 2, 760, "2026-03-05T09:00:00.000Z", "2026-03-06T10:00:00.000Z"],
+      [null, 1, 1, 44, "2026-03-06T10:05:00.000Z", "2026-03-06T10:05:00.000Z"],
+    ]);
+    expect(report.flowPlans[0].costUsd).toBeCloseTo(usd(650, 110), 12);
+    expect(report.flowPlans[0]).toMatchObject({ toolCalls: 3, subagents: 1, errors: 1 });
+  });
+});
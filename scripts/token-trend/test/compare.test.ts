@@ -0,0 +1,78 @@
+import { describe, expect, test } from "bun:test";
+import { join } from "node:path";
+import { aggregate, buildComparison, defaultRanges, loadPricing, loadSessions, parseRange, resolveSources, type DateRange, type ParseOptions } from "../lib.ts";
+
+const FIXTURES = join(import.meta.dir, "fixtures");
+const opts: ParseOptions = { pricing: loadPricing(join(FIXTURES, "pricing.json")) };
+const sources = resolveSources({ claude: join(FIXTURES, "projects") }, "claude");
+
+function compare(current: string, baseline: string) {
+  const ranges = { current: parseRange(current), baseline: parseRange(baseline) };
+  const report = (r: DateRange) => aggregate(loadSessions(sources, { since: r.since, until: r.until }, opts), { since: r.since, until: r.until }, opts);
+  return buildComparison(report(ranges.current), report(ranges.baseline), ranges);
+}
+
+const iso = (ms: number) => new Date(ms).toISOString();
+
+describe("default ranges", () => {
+  test("this ISO week so far against the whole previous week", () => {
+    const now = Date.parse("2026-06-17T12:00:00.000Z");
+    const { current, baseline } = defaultRanges(now);
+    expect([current.label, iso(current.since), current.until]).toEqual(["2026-W25", "2026-06-15T00:00:00.000Z", now]);
+    expect([baseline.label, iso(baseline.since), iso(baseline.until)]).toEqual(["2026-W24", "2026-06-08T00:00:00.000Z", "2026-06-15T00:00:00.000Z"]);
+  });
+
+  test("weeks that straddle the new year keep their ISO labels", () => {
+    const inW53 = defaultRanges(Date.parse("2027-01-02T08:00:00.000Z"));
+    expect([inW53.current.label, iso(inW53.current.since), inW53.baseline.label]).toEqual(["2026-W53", "2026-12-28T00:00:00.000Z", "2026-W52"]);
+    const afterW53 = defaultRanges(Date.parse("2021-01-04T00:00:00.000Z"));
+    expect([afterW53.current.label, afterW53.baseline.label, iso(afterW53.baseline.since)]).toEqual(["2021-W01", "2020-W53", "2020-12-28T00:00:00.000Z"]);
+  });
+});
+
+describe("metric deltas", () => {
+  // W25 holds the errors session, W10 the malformed one; both in /work/acme.
+  const c = compare("2026-W25", "2026-W10");
+  const metric = (key: string) => c.metrics.find(m => m.metric === key)!;
+
+  test("deltas and relative change against the baseline", () => {
+    expect(metric("costUsd")).toMatchObject({ trend: "worse" });
+    expect(metric("costUsd").delta).toBeCloseTo(0.00505 - 0.00255, 10);
+    expect(metric("costUsd").pctChange).toBeCloseTo(((0.00505 - 0.00255) / 0.00255) * 100, 6);
+  });
+
+  test("direction decides worse or better; neutral metrics stay flat", () => {
+    expect(metric("sessions")).toMatchObject({ current: 1, baseline: 1, trend: "flat" });
+    expect(metric("cacheReadShare").trend).toBe("better");
+    // No errors in the baseline: no relative change, still a regression.
+    expect(metric("toolErrorRate")).toMatchObject({ baseline: 0, pctChange: null, trend: "worse" });
+  });
+
+  test("ratios stay flat when one period is empty", () => {
+    const c = compare("2026-W53", "2026-W52");
+    const m = (key: string) => c.metrics.find(x => x.metric === key)!;
+    expect(m("costUsd")).toMatchObject({ baseline: 0, pctChange: null, trend: "worse" });
+    expect(m("costPerSessionUsd").trend).toBe("flat");
+    expect(m("tokensPerMsg").trend).toBe("flat");
+  });
+});
+
+describe("movers", () => {
+  const c = compare("2026-W25", "2026-W10");
+
+  test("headline movers are the non-flat metrics past the threshold, unbounded changes first", () => {
+    const movers = c.movers.metrics.map(m => m.metric);
+    expect(movers[0]).toBe("toolErrorRate");
+    expect(movers).toContain("costUsd");
+    expect(movers).not.toContain("sessions");
+    for (const m of c.movers.metrics) expect(m.pctChange === null || Math.abs(m.pctChange) >= 20).toBe(true);
+  });
+
+  test("dimension rows are sorted by absolute delta and unchanged rows are left out", () => {
+    expect(c.byProject.map(r => r.name)).toEqual(["/work/acme"]);
+    expect(c.movers.rows.filter(r => r.dimension === "project").map(r => r.name)).toEqual(["/work/acme"]);
+    expect(c.movers.rows.every(r => r.delta !== 0)).toBe(true);
+    const deltas = c.byModel.map(r => Math.abs(r.delta));
+    expect(deltas).toEqual([...deltas].sort((a, b) => b - a));
+  });
+});
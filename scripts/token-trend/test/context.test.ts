@@ -0,0 +1,66 @@
+import { describe, expect, test } from "bun:test";
+import { join } from "node:path";
+import { aggregate, loadPricing, loadSessions, resolveSources, type ParseOptions } from "../lib.ts";
+
+// -work-ctx/bloat.jsonl: a cold start with a 48k-char Read result (and a Bash one just
+// under the large-result threshold), a cache-read drop, a manual compaction with
+// preTokens and an auto one without. long.jsonl spends 10 turns above 100k tokens;
+// edge.jsonl 9, plus one at exactly 100k.
+const FIXTURES = join(import.meta.dir, "fixtures");
+const opts: ParseOptions = { pricing: loadPricing(join(FIXTURES, "pricing.json")) };
+const sessions = loadSessions(resolveSources({ claude: join(FIXTURES, "context") }, "claude"), {}, opts);
+const context = (id: string) => sessions.find(s => s.sessionId === id)!.context;
+
+describe("per-session context", () => {
+  const c = context("bloat");
+
+  test("prompt size per turn is input plus cache read and write", () => {
+    // 21000, 33100, 33100, 15100 and 5100.
+    expect(c).toMatchObject({ turns: 5, promptTokens: 107_400, peakPromptTokens: 33_100, highContextTurns: 0 });
+  });
+
+  test("compactions free the size before them minus the first prompt after", () => {
+    expect(c.turnsToFirstCompaction).toBe(3);
+    expect(c.compactions.map(e => [e.trigger, e.preTokens, e.freedTokens])).toEqual([
+      ["manual", 40_000, 24_900],
+      // No preTokens: measured from the last prompt before it.
+      ["auto", null, 10_000],
+    ]);
+  });
+
+  test("a cache re-write after reading back under half the last prompt is an invalidation", () => {
+    // Turn 2 re-writes 13k but reads back 20k of 21k; turn 4 follows a compaction.
+    expect(c).toMatchObject({ invalidations: 1, invalidatedTokens: 32_000 });
+  });
+
+  test("only tool results of 10k tokens (chars / 4) or more count as large", () => {
+    expect(Object.fromEntries(c.largeResults)).toEqual({ Read: { count: 1, tokens: 12_000, maxTokens: 12_000 } });
+  });
+});
+
+describe("report rollups", () => {
+  const report = aggregate(sessions, {}, opts);
+
+  test("sessions with ten or more turns above 100k are compaction candidates", () => {
+    expect(context("edge").highContextTurns).toBe(9);
+    expect(report.context.compactionCandidates).toEqual([
+      {
+        sessionId: "long",
+        project: "/work/ctx",
+        lastTs: "2026-03-11T09:11:00.000Z",
+        turns: 11,
+        peakPromptTokens: 120_000,
+        highContextTurns: 10,
+        highContextCostUsd: expect.closeTo((10 * (1000 * 3 + 119_000 * 0.3 + 10 * 15)) / 1_000_000, 12),
+        firstCompactionTurn: null,
+      },
+    ]);
+  });
+
+  test("totals, tools and projects driving the bloat", () => {
+    expect(report.context).toMatchObject({ sessionsCompacted: 1, compactions: 2, autoCompactions: 1, avgTurnsToFirstCompaction: 3, avgFreedTokens: 17_450 });
+    expect(report.context).toMatchObject({ invalidations: 1, invalidatedTokens: 32_000, largeResults: 1, largeResultTokens: 12_000 });
+    expect(report.context.byTool).toEqual([{ tool: "Read", largeResults: 1, tokens: 12_000, maxTokens: 12_000 }]);
+    expect(report.context.byProject).toMatchObject([{ project: "/work/ctx", sessions: 3, turns: 26, compactions: 2, highContextTurns: 19 }]);
+  });
+});
@@ -0,0 +1,70 @@
+import { describe, expect, test } from "bun:test";
+import { join } from "node:path";
+import { loadPricing, parseTranscript, type ParseOptions } from "../lib.ts";
+
+const opts: ParseOptions = { pricing: loadPricing(join(import.meta.dir, "fixtures", "pricing.json")) };
+
+let clock = 0;
+const record = (type: "user" | "assistant", fields: object) =>
+  JSON.stringify({ type, sessionId: "loop", cwd: "/work/acme", timestamp: new Date(Date.UTC(2026, 2, 2, 9, 0, clock++)).toISOString(), ...fields });
+const edit = (n: number) =>
+  record("assistant", {
+    requestId: "req" + n,
+    message: {
+      id: "msg" + n,
+      model: "claude-test",
+      // 100 tokens, $0.00138 at the March rates.
+      usage: { input_tokens: 10, output_tokens: 90 },
+      content: [{ type: "tool_use", id: "e" + n, name: "Edit", input: { file_path: "/work/acme/src/a.ts", old_string: "x", new_string: "y" } }],
+    },
+  });
+const result = (n: number, text: string, isError: boolean) =>
+  record("user", { message: { role: "user", content: [{ type: "tool_result", tool_use_id: "e" + n, content: text, is_error: isError }] } });
+
+describe("retry-loop waste", () => {
+  test("a loop whose retries fail differently stays charged to the category that opened it", () => {
+    const content = [
+      record("user", { message: { role: "user", content: "rename x to y" } }),
+      edit(1),
+      result(1, "String to replace not found in file.", true), // 36 chars → 9 tokens
+      edit(2),
+      result(2, "File does not exist.", true), // 20 chars → 5 tokens
+      edit(3),
+      result(3, "The file has been updated.", false),
+    ].join("\n");
+    const s = parseTranscript(content, "loop", "-work-acme", {}, opts);
+
+    // Three calls at 100 tokens; each failed result is paid once, by the retry it prompts.
+    const opened = s.errorWaste.get("edit_string_not_found")!;
+    expect(opened).toMatchObject({ errors: 1, retryLoops: 1, retries: 2, tokens: 300 });
+    expect(opened.costUsd).toBeCloseTo(3 * 0.00138, 10);
+
+    const switched = s.errorWaste.get("file_not_found")!;
+    expect(switched).toEqual({ errors: 1, retryLoops: 0, retries: 0, tokens: 0, costUsd: 0 });
+  });
+
+  test("a loop still failing at the end keeps its last result", () => {
+    const content = [
+      record("user", { message: { role: "user", content: "rename x to y" } }),
+      edit(1),
+      result(1, "String to replace not found in file.", true),
+      edit(2),
+      result(2, "File does not exist.", true),
+    ].join("\n");
+    const w = parseTranscript(content, "loop", "-work-acme", {}, opts).errorWaste.get("edit_string_not_found")!;
+    expect(w).toMatchObject({ errors: 1, retryLoops: 1, retries: 1, tokens: 200 + 5 });
+  });
+
+  test("a typed prompt closes the loop", () => {
+    const content = [
+      record("user", { message: { role: "user", content: "rename x to y" } }),
+      edit(1),
+      result(1, "String to replace not found in file.", true),
+      record("user", { message: { role: "user", content: "read it first" } }),
+      edit(2),
+      result(2, "The file has been updated.", false),
+    ].join("\n");
+    const w = parseTranscript(content, "loop", "-work-acme", {}, opts).errorWaste.get("edit_string_not_found")!;
+    expect(w).toMatchObject({ errors: 1, retryLoops: 0, retries: 0, tokens: 100 + 9 });
+  });
+});
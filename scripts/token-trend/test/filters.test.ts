@@ -0,0 +1,100 @@
+import { describe, expect, test } from "bun:test";
+import { join } from "node:path";
+import { aggregate, loadSessions, matchesProject, newSession, parseDateBound, resolveSources, totalTokens, type Filters } from "../lib.ts";
+
+// -work-acme/long.jsonl runs from Sunday 2026-03-01 23:50 into Monday 00:06 (ISO weeks
+// 9 and 10): an opus turn with a Read call before midnight, a haiku turn after it.
+// -home-dev-Beta-API/other.jsonl is one opus turn on 2026-03-10 with a Windows cwd.
+const FIXTURES = join(import.meta.dir, "fixtures", "filters");
+const load = (filters: Filters) => loadSessions(resolveSources({ claude: FIXTURES }, "claude"), filters);
+const byId = (filters: Filters) => new Map(load(filters).map(s => [s.sessionId, s]));
+
+describe("date bounds", () => {
+  const now = Date.parse("2026-03-10T12:00:00.000Z");
+
+  test("relative bounds count back from now", () => {
+    expect(parseDateBound("12h", "since", now)).toBe(now - 12 * 3_600_000);
+    expect(parseDateBound("7d", "since", now)).toBe(now - 7 * 86_400_000);
+    expect(parseDateBound("2w", "until", now)).toBe(now - 14 * 86_400_000);
+  });
+
+  test("a bare date starts that UTC day, and as --until covers the whole of it", () => {
+    expect(parseDateBound("2026-03-01", "since")).toBe(Date.parse("2026-03-01T00:00:00.000Z"));
+    expect(parseDateBound("2026-03-01", "until")).toBe(Date.parse("2026-03-02T00:00:00.000Z"));
+    expect(parseDateBound("2026-03-01T08:30:00Z", "until")).toBe(Date.parse("2026-03-01T08:30:00.000Z"));
+  });
+
+  test("anything else is rejected with the flag it came from", () => {
+    expect(() => parseDateBound("yesterday", "since")).toThrow('invalid --since "yesterday"');
+    expect(() => parseDateBound("3 days", "until")).toThrow('invalid --until "3 days"');
+    expect(() => parseDateBound("2026-13-45", "until")).toThrow("invalid --until");
+  });
+});
+
+describe("per-message date cut", () => {
+  test("--since keeps only the part of a session after the bound", () => {
+    const long = byId({ since: parseDateBound("2026-03-02", "since") }).get("long")!;
+    expect(long).toMatchObject({ userMsgs: 1, assistantMsgs: 1, firstTs: "2026-03-02T00:05:00.000Z" });
+    expect(totalTokens(long)).toBe(220);
+  });
+
+  test("a bare --until date keeps that whole day and drops sessions left empty", () => {
+    const sessions = byId({ until: parseDateBound("2026-03-01", "until") });
+    expect([...sessions.keys()]).toEqual(["long"]);
+    expect(sessions.get("long")).toMatchObject({ userMsgs: 2, assistantMsgs: 1, lastTs: "2026-03-01T23:52:00.000Z" });
+    expect(totalTokens(sessions.get("long")!)).toBe(110);
+  });
+
+  test("the weekly trend follows the kept messages, not the whole session", () => {
+    const weeks = (filters: Filters) => aggregate(load(filters), filters).byWeek.map(w => [w.week, w.tokens]);
+    expect(weeks({})).toEqual([["2026-W10", 330], ["2026-W11", 55]]);
+    expect(weeks({ until: parseDateBound("2026-03-01", "until") })).toEqual([["2026-W09", 110]]);
+  });
+
+  test("timestamps bound the window at both ends: since inclusive, until exclusive", () => {
+    const long = byId({ since: Date.parse("2026-03-01T23:51:00Z"), until: Date.parse("2026-03-02T00:05:00Z") }).get("long")!;
+    expect(long).toMatchObject({ userMsgs: 1, assistantMsgs: 1, firstTs: "2026-03-01T23:51:00.000Z", lastTs: "2026-03-01T23:52:00.000Z" });
+  });
+});
+
+describe("model filter", () => {
+  test("turns of other models are dropped together with their tool results", () => {
+    const sessions = byId({ model: "haiku" });
+    expect([...sessions.keys()]).toEqual(["long"]);
+    const long = sessions.get("long")!;
+    expect(long).toMatchObject({ userMsgs: 2, assistantMsgs: 1 });
+    expect(long.toolUses.size).toBe(0);
+    expect([...long.modelTokens.keys()]).toEqual(["claude-haiku-4-5"]);
+  });
+
+  test("the name matches a substring of the model key, case-insensitively", () => {
+    const sessions = byId({ model: "Opus-4-6" });
+    expect([...sessions.keys()].sort()).toEqual(["long", "other"]);
+    expect(sessions.get("long")).toMatchObject({ userMsgs: 3, assistantMsgs: 1 });
+    expect(aggregate([...sessions.values()]).summary.tokens).toBe(165);
+  });
+});
+
+describe("project filter", () => {
+  test("a glob matches the cwd's full path or its last segment", () => {
+    expect([...byId({ project: "acme" }).keys()]).toEqual(["long"]);
+    expect([...byId({ project: "/work/*" }).keys()]).toEqual(["long"]);
+    expect([...byId({ project: "/work" }).keys()]).toEqual([]);
+  });
+
+  test("Windows paths match with forward slashes and any case", () => {
+    expect([...byId({ project: "beta-api" }).keys()]).toEqual(["other"]);
+    expect([...byId({ project: "c:/users/**" }).keys()]).toEqual(["other"]);
+  });
+
+  test("single-segment wildcards stop at slashes; ** crosses them", () => {
+    const s = { ...newSession("s", "-work-gamma"), cwd: "/work/gamma/packages/core" };
+    expect(matchesProject(s, "/work/*/core")).toBe(false);
+    expect(matchesProject(s, "/work/**/core")).toBe(true);
+    expect(matchesProject(s, "co?e")).toBe(true);
+  });
+
+  test("sessions without a cwd fall back to the project dir", () => {
+    expect(matchesProject(newSession("s", "-work-gamma"), "-work-gam*")).toBe(true);
+  });
+});
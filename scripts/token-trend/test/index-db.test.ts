@@ -0,0 +1,134 @@
+import { Database } from "bun:sqlite";
+import { afterEach, beforeEach, describe, expect, test } from "bun:test";
+import { appendFileSync, cpSync, mkdtempSync, readFileSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { INDEX_SCHEMA_VERSION } from "../index-db.ts";
+import { aggregate, loadPricing, loadSessions, loadSessionsFromIndex, openIndex, render, resolveSources, syncIndex, type ParseOptions, type Report, type Source } from "../lib.ts";
+import { claudeAdapter } from "../sources.ts";
+
+const FIXTURES = join(import.meta.dir, "fixtures");
+const opts: ParseOptions = { pricing: loadPricing(join(FIXTURES, "pricing.json")) };
+
+let dir: string;
+let projects: string;
+let sources: Source[];
+
+beforeEach(() => {
+  dir = mkdtempSync(join(tmpdir(), "token-trend-index-"));
+  projects = join(dir, "projects");
+  cpSync(join(FIXTURES, "projects"), projects, { recursive: true });
+  sources = resolveSources({ claude: projects }, "claude");
+});
+
+afterEach(() => rmSync(dir, { recursive: true, force: true }));
+
+/** The report JSON without its generation time, so two runs compare equal. */
+function reportJson(sessions: ReturnType<typeof loadSessions>): Omit<Report, "generatedAt"> {
+  const { generatedAt, ...rest }: Report = JSON.parse(render(aggregate(sessions, {}, opts), "json"));
+  return rest;
+}
+
+function indexed(path: string) {
+  const db = openIndex(path);
+  try {
+    const sync = syncIndex(db, sources);
+    return { sync, json: reportJson(loadSessionsFromIndex(db, sources, {}, opts)) };
+  } finally {
+    db.close();
+  }
+}
+
+const direct = () => reportJson(loadSessions(sources, {}, opts));
+
+const errorsFile = () => join(projects, "-work-acme", "errors.jsonl");
+const extraTurn = (id: string, ts: string) =>
+  JSON.stringify({
+    type: "assistant",
+    sessionId: "errors",
+    cwd: "/work/acme",
+    timestamp: ts,
+    requestId: "r-" + id,
+    message: { id: "m-" + id, model: "claude-test", usage: { input_tokens: 7, output_tokens: 70, cache_read_input_tokens: 0, cache_creation_input_tokens: 0 }, content: [{ type: "text", text: "done" }] },
+  });
+
+describe("incremental index", () => {
+  test("a first sync matches --no-index", () => {
+    const { sync, json } = indexed(join(dir, "index.sqlite"));
+    expect(sync).toMatchObject({ transcripts: 3, updated: 3, failed: [] });
+    expect(json).toEqual(direct());
+  });
+
+  test("appended lines are parsed from parsed_to, not from the start", () => {
+    const path = join(dir, "index.sqlite");
+    indexed(path);
+    const before = readFileSync(errorsFile()).length;
+    const line = extraTurn("x", "2026-06-15T10:05:00.000Z") + "\n";
+    appendFileSync(errorsFile(), line);
+
+    const { sync, json } = indexed(path);
+    expect(sync.updated).toBe(1);
+    expect(sync.bytesParsed).toBe(Buffer.byteLength(line));
+    expect(json).toEqual(direct());
+
+    const db = new Database(path, { readonly: true });
+    const row = db.query<{ parsed_to: number }, [string]>("SELECT parsed_to FROM transcripts WHERE path = ?").get(errorsFile())!;
+    db.close();
+    expect(row.parsed_to).toBe(before + Buffer.byteLength(line));
+  });
+
+  test("a trailing partial line waits until it is completed", () => {
+    const path = join(dir, "index.sqlite");
+    indexed(path);
+    const line = extraTurn("y", "2026-06-15T10:06:00.000Z");
+    const cut = Math.floor(line.length / 2);
+
+    appendFileSync(errorsFile(), line.slice(0, cut));
+    const partial = indexed(path);
+    expect(partial.sync.bytesParsed).toBe(0);
+    expect(partial.json).toEqual(direct());
+
+    appendFileSync(errorsFile(), line.slice(cut) + "\n");
+    const completed = indexed(path);
+    expect(completed.sync.bytesParsed).toBe(Buffer.byteLength(line) + 1);
+    expect(completed.json).toEqual(direct());
+    expect(completed.json.summary.assistantMsgs).toBe(partial.json.summary.assistantMsgs + 1);
+  });
+
+  test("an index from another schema version is rebuilt on open", () => {
+    const path = join(dir, "index.sqlite");
+    indexed(path);
+    const stale = new Database(path);
+    stale.exec(`DELETE FROM messages; PRAGMA user_version = ${INDEX_SCHEMA_VERSION - 1}`);
+    stale.close();
+
+    const { sync, json } = indexed(path);
+    expect(sync.updated).toBe(3);
+    expect(json).toEqual(direct());
+  });
+
+  test("a transcript that fails to ingest is reported and retried", () => {
+    const path = join(dir, "index.sqlite");
+    const failing: Source[] = [{ root: projects, adapter: { ...claudeAdapter, normalizer: () => ({ push: () => { throw new Error("boom"); }, flush: () => [] }) } }];
+    const db = openIndex(path);
+    try {
+      const sync = syncIndex(db, failing);
+      expect(sync.updated).toBe(0);
+      expect(sync.failed.map(f => f.error)).toEqual(["boom", "boom", "boom"]);
+      expect(sync.failed.map(f => f.path).sort()).toEqual([errorsFile(), join(projects, "-work-acme", "malformed.jsonl"), join(projects, "-work-beta", "commands.jsonl")]);
+      // Nothing was recorded as parsed, so a working adapter picks every file up again.
+      expect(syncIndex(db, sources)).toMatchObject({ updated: 3, failed: [] });
+    } finally {
+      db.close();
+    }
+  });
+
+  test("a rewritten (shrunk) transcript is parsed from scratch", () => {
+    const path = join(dir, "index.sqlite");
+    indexed(path);
+    const lines = readFileSync(errorsFile(), "utf8").trimEnd().split("\n");
+    writeFileSync(errorsFile(), lines.slice(0, 2).join("\n") + "\n");
+    const { json } = indexed(path);
+    expect(json).toEqual(direct());
+  });
+});
@@ -0,0 +1,60 @@
+import { describe, expect, test } from "bun:test";
+import { join } from "node:path";
+import { aggregate, buildBundle, loadPricing, loadSessions, mergeBundles, REPORT_SCHEMA, REPORT_SCHEMA_VERSION, render, resolveSources } from "../lib.ts";
+
+const FIXTURES = join(import.meta.dir, "fixtures");
+const pricing = loadPricing(join(FIXTURES, "pricing.json"));
+const sessions = loadSessions(resolveSources({ claude: join(FIXTURES, "projects") }, "claude"), {}, { pricing });
+const report = aggregate(sessions, {}, { pricing });
+
+describe("render", () => {
+  test("json is the versioned report contract", () => {
+    const parsed = JSON.parse(render(report, "json"));
+    expect(parsed.schema).toBe(REPORT_SCHEMA);
+    expect(parsed.schemaVersion).toBe(REPORT_SCHEMA_VERSION);
+    expect(parsed.summary.sessions).toBe(3);
+  });
+
+  test("csv gives one document per section", () => {
+    const files = render(report, "csv");
+    expect(files.get("summary.csv")!.split("\n")[0]).toContain("sessions");
+    expect(files.has("weeks.csv")).toBe(true);
+  });
+
+  test("table, markdown and html are self-contained strings", () => {
+    expect(render(report, "table")).toContain("2026-W53");
+    expect(render(report, "markdown").startsWith("# ")).toBe(true);
+    const html = render(report, "html");
+    expect(html.startsWith("<!DOCTYPE html>")).toBe(true);
+    expect(html).not.toMatch(/\b(src|href)="(https?:)?\/\//);
+  });
+});
+
+describe("export bundles", () => {
+  const bundle = buildBundle(sessions, "ana", "test-salt");
+
+  test("no path, file name or plan slug leaves the machine", () => {
+    const roots = { claude: join(FIXTURES, "projects"), codex: join(FIXTURES, "codex"), grok: join(FIXTURES, "grok") };
+    const everywhere = buildBundle(loadSessions(resolveSources(roots), {}, { pricing }), "ana", "test-salt");
+    expect(everywhere.sessions.map(s => s.harness).sort()).toEqual(["claude", "claude", "claude", "codex", "grok"]);
+    const text = JSON.stringify(everywhere);
+    // Grok session ids are paths relative to the sessions root.
+    for (const leak of ["/work/acme", "-work-beta", "src/a.ts", "007-login", "codex-app", "grok-app", "session-1"]) expect(text).not.toContain(leak);
+    for (const s of everywhere.sessions) expect(s.sessionId).toMatch(/^session-[0-9a-f]{10}$/);
+    expect(everywhere.period).toEqual({ from: "2026-03-02", to: "2027-01-01" });
+  });
+
+  test("the same salt gives the same project alias", () => {
+    const again = buildBundle(sessions, "ana", "test-salt");
+    expect(again.sessions.map(s => s.project)).toEqual(bundle.sessions.map(s => s.project));
+    expect(buildBundle(sessions, "ana", "other").sessions[0].project).not.toBe(bundle.sessions[0].project);
+  });
+
+  test("a merged bundle reproduces the totals, tagged with its user", () => {
+    const merged = mergeBundles([bundle, bundle]);
+    expect(merged.duplicates).toBe(3);
+    const r = aggregate(merged.sessions, {}, { pricing });
+    expect(r.summary).toEqual(report.summary);
+    expect(r.byUser.map(u => [u.user, u.sessions])).toEqual([["ana", 3]]);
+  });
+});
@@ -0,0 +1,175 @@
+import { describe, expect, test } from "bun:test";
+import { readFileSync } from "node:fs";
+import { join } from "node:path";
+import { classifyError } from "../errors.ts";
+import { aggregate, loadPricing, loadSessions, parseLines, parseTranscript, resolveSources, totalTokens, type ParseOptions } from "../lib.ts";
+
+const FIXTURES = join(import.meta.dir, "fixtures");
+const opts: ParseOptions = { pricing: loadPricing(join(FIXTURES, "pricing.json")) };
+
+function fixture(project: string, session: string): string {
+  return readFileSync(join(FIXTURES, "projects", project, session + ".jsonl"), "utf8");
+}
+
+describe("malformed lines", () => {
+  const content = fixture("-work-acme", "malformed");
+
+  test("skips invalid JSON, blank lines, non-objects and empty records", () => {
+    const messages = parseLines(content);
+    expect(messages.map(m => m.type)).toEqual(["user", "assistant", "assistant"]);
+  });
+
+  test("a truncated last line does not break the session", () => {
+    const s = parseTranscript(content, "malformed", "-work-acme", {}, opts);
+    expect(s.userMsgs).toBe(1);
+    expect(s.assistantMsgs).toBe(1);
+    expect(s.cwd).toBe("/work/acme");
+    expect(s.lastTs).toBe("2026-03-02T09:00:06.000Z");
+  });
+
+  test("streamed fragments of one response are counted once", () => {
+    const s = parseTranscript(content, "malformed", "-work-acme", {}, opts);
+    expect(s.duplicateFragments).toBe(1);
+    const usage = s.modelTokens.get("claude-test")!;
+    expect(usage.output).toBe(80);
+    expect(usage.input).toBe(100);
+    expect(s.toolUses.get("Read")).toBe(1);
+  });
+
+  test("--raw counts every fragment", () => {
+    const s = parseTranscript(content, "malformed", "-work-acme", {}, { ...opts, raw: true });
+    expect(s.assistantMsgs).toBe(2);
+    expect(s.modelTokens.get("claude-test")!.output).toBe(130);
+  });
+});
+
+describe("tool_result errors", () => {
+  const s = parseTranscript(fixture("-work-acme", "errors"), "errors", "-work-acme", {}, opts);
+
+  test("is_error results count per tool", () => {
+    expect(Object.fromEntries(s.toolErrorsByTool)).toEqual({ Edit: 1, Read: 1, Write: 1 });
+  });
+
+  test("a Bash exit code without is_error is a command failure", () => {
+    expect(s.bashExitErrors).toBe(1);
+    expect(s.errorWaste.get("command_failure")?.errors).toBe(1);
+  });
+
+  test("failures are classified from their text", () => {
+    expect(Object.fromEntries([...s.errorWaste].map(([category, w]) => [category, w.errors]))).toEqual({
+      edit_string_not_found: 1,
+      command_failure: 1,
+      file_not_found: 1,
+      user_rejected: 1,
+    });
+  });
+
+  test("classifyError covers the remaining categories", () => {
+    const failed = (errorText: string) => ({ toolUseId: "x", isError: true, exitCodeError: false, interrupted: false, chars: errorText.length, errorText });
+    expect(classifyError("Bash", failed("PreToolUse:Bash hook error: blocked by policy"))).toBe("hook_blocked");
+    expect(classifyError("Bash", failed("Command timed out after 2m 0.0s"))).toBe("timeout");
+    expect(classifyError("Write", failed("EACCES: permission denied, open '/etc/hosts'"))).toBe("permission_denied");
+    expect(classifyError("Grep", failed("something unexpected"))).toBe("other");
+    expect(classifyError("Bash", failed("Exit code 2"))).toBe("command_failure");
+    expect(classifyError("Read", { ...failed(""), isError: false })).toBeNull();
+  });
+
+  test("successful results are not errors", () => {
+    expect(s.toolUses.get("Read")).toBe(2);
+    expect(s.fileReads.get("/work/acme/src/a.ts")).toBe(1);
+  });
+});
+
+describe("slash-command extraction", () => {
+  const content = fixture("-work-beta", "commands");
+  const messages = parseLines(content);
+  const users = messages.filter(m => m.type === "user");
+
+  test("reads <command-name> from string and text-block content, plugin namespace included", () => {
+    expect(users.map(m => m.commands)).toEqual([["flow"], [], [], ["my-plugin:review"], []]);
+  });
+
+  test("command output and tool results are not typed prompts; a prose mention is not a command", () => {
+    expect(users.map(m => m.userPrompt)).toEqual([true, false, false, true, true]);
+  });
+
+  test("/flow takes the plan it references", () => {
+    expect(users[0].plans).toEqual(["007-login"]);
+    const s = parseTranscript(content, "commands", "-work-beta", {}, opts);
+    expect(Object.fromEntries(s.slashCommands)).toEqual({ flow: 1, "my-plugin:review": 1 });
+    expect(s.commandSpans.map(span => [span.command, span.plan, span.turns, span.toolCalls])).toEqual([
+      ["flow", "007-login", 1, 1],
+      ["my-plugin:review", null, 1, 0],
+    ]);
+  });
+});
+
+describe("skill-activation hints", () => {
+  const content = readFileSync(join(FIXTURES, "skill-hints.jsonl"), "utf8");
+
+  test("only hook output counts as a hint; a doctrine mention in a system-reminder does not", () => {
+    const users = parseLines(content).filter(m => m.type === "user");
+    expect(users.map(m => m.skillHints)).toEqual([["testing"], [], ["debugging"]]);
+  });
+
+  test("hints are paired with the Skill calls that follow them", () => {
+    const s = parseTranscript(content, "skill-hints", "-work-gamma", {}, opts);
+    expect(Object.fromEntries(s.skillHintStats)).toEqual({
+      testing: { hinted: 1, followed: 1, invoked: 1, invokedAfterHint: 1 },
+      debugging: { hinted: 1, followed: 0, invoked: 0, invokedAfterHint: 0 },
+    });
+  });
+});
+
+describe("fragments without usage", () => {
+  const record = (usage: object | undefined, content: object) =>
+    JSON.stringify({
+      type: "assistant",
+      sessionId: "frag",
+      cwd: "/work/acme",
+      timestamp: "2026-03-02T09:00:00.000Z",
+      requestId: "req1",
+      message: { id: "msg1", model: "claude-test", ...(usage && { usage }), content: [content] },
+    });
+  const content = [
+    record(undefined, { type: "thinking", thinking: "…" }),
+    record({ input_tokens: 100, output_tokens: 40 }, { type: "text", text: "partial" }),
+    record({ input_tokens: 100, output_tokens: 90 }, { type: "text", text: "done" }),
+  ].join("\n");
+
+  test("a first fragment with no usage still opens the response", () => {
+    const s = parseTranscript(content, "frag", "-work-acme", {}, opts);
+    expect(s.assistantMsgs).toBe(1);
+    expect(s.duplicateFragments).toBe(2);
+    expect(s.modelTokens.get("claude-test")).toMatchObject({ input: 100, output: 90 });
+    expect(s.context.turns).toBe(1);
+  });
+});
+
+// -work-acme/resumed.jsonl starts with a copy of parent.jsonl's two responses (100/50
+// with a Read call, 200/20), then adds its own 300/30 turn a day later.
+describe("resumed sessions", () => {
+  const load = (o: ParseOptions) => loadSessions(resolveSources({ claude: join(FIXTURES, "resume") }, "claude"), {}, o);
+  const byId = (o: ParseOptions) => new Map(load(o).map(s => [s.sessionId, s]));
+
+  test("responses copied from an earlier session are counted once per load", () => {
+    const sessions = byId(opts);
+    expect(totalTokens(sessions.get("parent")!)).toBe(370);
+    const resumed = sessions.get("resumed")!;
+    expect(totalTokens(resumed)).toBe(330);
+    expect(resumed).toMatchObject({ assistantMsgs: 1, replayedResponses: 2, duplicateFragments: 0 });
+    expect(resumed.toolUses.size).toBe(0);
+  });
+
+  test("the report counts the skipped copies", () => {
+    const report = aggregate(load(opts), {}, opts);
+    expect(report.summary.tokens).toBe(700);
+    expect(report.diagnostics).toMatchObject({ duplicateAssistantRecords: 0, replayedAssistantRecords: 2 });
+  });
+
+  test("--raw and a transcript parsed on its own count every copy", () => {
+    expect(load({ ...opts, raw: true }).reduce((a, s) => a + totalTokens(s), 0)).toBe(1070);
+    const content = readFileSync(join(FIXTURES, "resume", "-work-acme", "resumed.jsonl"), "utf8");
+    expect(totalTokens(parseTranscript(content, "resumed", "-work-acme", {}, opts))).toBe(700);
+  });
+});
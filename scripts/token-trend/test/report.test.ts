@@ -0,0 +1,112 @@
+import { describe, expect, test } from "bun:test";
+import { join } from "node:path";
+import {
+  addTokens,
+  aggregate,
+  isoWeek,
+  isoWeekStart,
+  loadPricing,
+  loadSessions,
+  modelKey,
+  newSession,
+  normalizeUsage,
+  parseRange,
+  priceAt,
+  resolveSources,
+  type PricingTable,
+} from "../lib.ts";
+
+const FIXTURES = join(import.meta.dir, "fixtures");
+const pricing = loadPricing(join(FIXTURES, "pricing.json"));
+
+function fixtureReport() {
+  const sources = resolveSources({ claude: join(FIXTURES, "projects") }, "claude");
+  return aggregate(loadSessions(sources, {}, { pricing }), {}, { pricing });
+}
+
+describe("ISO week edges", () => {
+  test("days around the new year belong to the week holding their Thursday", () => {
+    expect(isoWeek("2019-12-30T12:00:00Z")).toBe("2020-W01");
+    expect(isoWeek("2020-12-31T12:00:00Z")).toBe("2020-W53");
+    expect(isoWeek("2021-01-03T23:59:59Z")).toBe("2020-W53");
+    expect(isoWeek("2021-01-04T00:00:00Z")).toBe("2021-W01");
+    expect(isoWeek("2024-12-30T08:00:00Z")).toBe("2025-W01");
+    expect(isoWeek("2027-01-01T10:00:00Z")).toBe("2026-W53");
+  });
+
+  test("isoWeekStart is the Monday at 00:00 UTC", () => {
+    expect(new Date(isoWeekStart(2026, 1)).toISOString()).toBe("2025-12-29T00:00:00.000Z");
+    expect(new Date(isoWeekStart(2026, 53)).toISOString()).toBe("2026-12-28T00:00:00.000Z");
+    expect(isoWeek(new Date(isoWeekStart(2021, 1)).toISOString())).toBe("2021-W01");
+  });
+
+  test("parseRange accepts week 53 only in long years", () => {
+    const r = parseRange("2026-W53");
+    expect(r.until - r.since).toBe(7 * 86_400_000);
+    expect(() => parseRange("2025-W53")).toThrow("2025 has no week 53");
+    expect(() => parseRange("2026-W00")).toThrow();
+  });
+
+  test("sessions are bucketed by the week of their last message", () => {
+    expect(fixtureReport().byWeek.map(w => [w.week, w.sessions])).toEqual([
+      ["2026-W10", 1],
+      ["2026-W25", 1],
+      ["2026-W53", 1],
+    ]);
+  });
+});
+
+describe("cost math", () => {
+  const usage = { input: 1000, output: 1000, cacheRead: 10_000, cacheCreate: 2000, cacheCreate5m: 0, cacheCreate1h: 0 };
+
+  test("dated models map to their key and use the period in force", () => {
+    expect(modelKey("claude-test-20260101")).toBe("claude-test");
+    expect(priceAt(pricing, "claude-test", "2026-05-31T23:59:59Z")!.input).toBe(3);
+    expect(priceAt(pricing, "claude-test", "2026-06-01T00:00:00Z")!.input).toBe(1);
+    expect(priceAt(pricing, "claude-test", "2025-01-01T00:00:00Z")!.input).toBe(3);
+    expect(priceAt(pricing, "claude-test", null)!.input).toBe(1);
+  });
+
+  test("untiered cache writes are billed at the default tier", () => {
+    const s = newSession("s", "p");
+    // 1000×3 + 1000×15 + 10000×0.3 + 2000×3.75 = 28500 per 1M
+    expect(addTokens(s, "claude-test", usage, "2026-03-01T00:00:00Z", pricing)).toBeCloseTo(0.0285, 10);
+    const hourly: PricingTable = { ...pricing, defaultCacheWriteTier: "1h" };
+    // 2000×6 instead of 2000×3.75
+    expect(addTokens(newSession("s", "p"), "claude-test", usage, "2026-03-01T00:00:00Z", hourly)).toBeCloseTo(0.033, 10);
+  });
+
+  test("the ephemeral 5m/1h breakdown is billed per tier", () => {
+    const counts = normalizeUsage({ input_tokens: 0, output_tokens: 0, cache_creation_input_tokens: 300, cache_creation: { ephemeral_5m_input_tokens: 100, ephemeral_1h_input_tokens: 200 } });
+    expect(counts).toMatchObject({ cacheCreate: 300, cacheCreate5m: 100, cacheCreate1h: 200 });
+    // 100×1.25 + 200×2 (June rates)
+    expect(addTokens(newSession("s", "p"), "claude-test", counts, "2026-06-15T00:00:00Z", pricing)).toBeCloseTo(0.000525, 10);
+  });
+
+  test("counterfactual cost prices cache reads and writes as fresh input", () => {
+    const s = newSession("s", "p");
+    addTokens(s, "claude-test", usage, "2026-03-01T00:00:00Z", pricing);
+    // (1000 + 10000 + 2000)×3 + 1000×15
+    expect(s.modelTokens.get("claude-test")!.counterfactualUsd).toBeCloseTo(0.054, 10);
+  });
+
+  test("unknown models keep their tokens at $0 and are flagged", () => {
+    const s = newSession("s", "p");
+    expect(addTokens(s, "mystery-model", usage, null, pricing)).toBe(0);
+    expect(s.modelTokens.get("mystery-model")).toMatchObject({ priced: false, costUsd: 0, input: 1000 });
+  });
+
+  test("report totals add up per session and period", () => {
+    const r = fixtureReport();
+    // malformed: 100×3 + 80×15 + 1000×0.3 + 200×3.75 (March rates, fragments deduped)
+    // errors: 5 × (10×1 + 100×5 + 5000×0.1); commands: 3070 + 1420 (June rates)
+    expect(r.summary.costUsd).toBeCloseTo((2550 + 5050 + 4490) / 1_000_000, 10);
+    expect(r.summary.sessions).toBe(3);
+    expect(r.unpricedModels).toEqual([]);
+    expect(r.byProject.map(p => [p.project, p.sessions])).toEqual([
+      ["/work/acme", 2],
+      ["/work/beta", 1],
+    ]);
+    expect(r.summary.cacheSavingsUsd).toBeCloseTo(r.summary.counterfactualCostUsd - r.summary.costUsd, 10);
+  });
+});
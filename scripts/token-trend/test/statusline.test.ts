@@ -0,0 +1,96 @@
+import { describe, expect, test } from "bun:test";
+import { join } from "node:path";
+import {
+  buildTimeline,
+  loadPricing,
+  parseLines,
+  parseStatuslineFields,
+  parseStatuslineInput,
+  projectsDirOf,
+  readSessionGroup,
+  renderStatusline,
+  statuslineData,
+  STATUSLINE_FIELDS,
+  type MessageGroup,
+  type ParseOptions,
+} from "../lib.ts";
+
+const FIXTURES = join(import.meta.dir, "fixtures");
+const opts: ParseOptions = { pricing: loadPricing(join(FIXTURES, "pricing.json")) };
+const transcriptPath = join(FIXTURES, "projects", "-work-acme", "errors.jsonl");
+const payload = { session_id: "errors", transcript_path: transcriptPath, model: { id: "claude-test", display_name: "Test" }, workspace: { current_dir: "/work/acme" } };
+
+describe("statusline input", () => {
+  test("reads the statusLine payload", () => {
+    expect(parseStatuslineInput(JSON.stringify(payload))).toEqual({ sessionId: "errors", transcriptPath, model: "Test", cwd: "/work/acme" });
+    expect(parseStatuslineInput(JSON.stringify({ session_id: "s", transcript_path: "/p/x/s.jsonl", model: { id: "m" }, cwd: "/c" }))).toMatchObject({ model: "m", cwd: "/c" });
+    expect(projectsDirOf(transcriptPath)).toBe(join(FIXTURES, "projects"));
+  });
+
+  test("rejects anything that is not the payload", () => {
+    expect(() => parseStatuslineInput("not json")).toThrow("statusLine JSON payload");
+    expect(() => parseStatuslineInput(JSON.stringify({ session_id: "s" }))).toThrow("no session_id/transcript_path");
+  });
+
+  test("--fields keeps the given order and rejects unknown names", () => {
+    expect(parseStatuslineFields(" errors, model ,,cache")).toEqual(["errors", "model", "cache"]);
+    expect(parseStatuslineFields(STATUSLINE_FIELDS.join(","))).toEqual([...STATUSLINE_FIELDS]);
+    expect(() => parseStatuslineFields("model,tokens")).toThrow('unknown statusline field "tokens"');
+  });
+});
+
+describe("statusline output", () => {
+  const input = parseStatuslineInput(JSON.stringify(payload));
+  const group = readSessionGroup(input);
+  // Half an hour into the block the session's first turn opened.
+  const now = Date.parse("2026-06-15T10:30:00.000Z");
+  const data = statuslineData(input, group, [], opts, now);
+
+  test("figures for the current session, today and the active block", () => {
+    expect(data.model).toBe("Test");
+    expect(data.sessionCostUsd).toBeCloseTo(0.00505, 10);
+    expect(data.todayCostUsd).toBeCloseTo(0.00505, 10);
+    expect(data.blockRemainingMinutes).toBe(270);
+    expect(data.cacheHitPct).toBeCloseTo((25_000 / 25_050) * 100, 10);
+  });
+
+  test("errors count Bash exit codes like the timeline and the error taxonomy do", () => {
+    // Edit, Read and Write is_error results plus one Bash "Exit code 1".
+    expect(data.toolErrors).toBe(4);
+    expect(data.toolErrors).toBe(buildTimeline(group, opts).toolErrors);
+  });
+
+  test("renders the chosen fields in order", () => {
+    expect(renderStatusline(data, ["model", "session", "today", "block", "cache", "errors"])).toBe("Test │ $0.01 │ hoy $0.01 │ 5h ⏳ 4h30m │ cache 100% │ ✗ 4");
+    expect(renderStatusline({ ...data, blockRemainingMinutes: null, cacheHitPct: null }, ["errors", "block", "cache"])).toBe("✗ 4 │ 5h ⏳ — │ cache —");
+  });
+});
+
+describe("active block", () => {
+  const input = parseStatuslineInput(JSON.stringify(payload));
+  const group = readSessionGroup(input);
+  const now = Date.parse("2026-06-15T10:30:00.000Z");
+  const other = (...timestamps: string[]): MessageGroup => ({
+    sessionId: "other",
+    projectDir: "-work-acme",
+    harness: "claude",
+    messages: parseLines(timestamps.map((timestamp, i) => JSON.stringify({
+      type: "assistant",
+      sessionId: "other",
+      timestamp,
+      requestId: "other-r" + i,
+      message: { id: "other-m" + i, model: "claude-test", usage: { input_tokens: 10, output_tokens: 1 }, content: [] },
+    })).join("\n")),
+  });
+
+  test("is chained from the last five-hour gap, however far back that is", () => {
+    // Blocks at 00:00 and 05:00 (09:50 is its last turn), so this session's 10:00 turn
+    // opens a new one. Starting the chain ten hours back, at 04:50, would put it in 09:00-14:00.
+    const chained = other("2026-06-14T18:00:00.000Z", "2026-06-15T00:10:00.000Z", "2026-06-15T04:50:00.000Z", "2026-06-15T05:10:00.000Z", "2026-06-15T09:50:00.000Z");
+    expect(statuslineData(input, group, [chained], opts, now).blockRemainingMinutes).toBe(270);
+  });
+
+  test("another session's turn at 07:10 keeps its 07:00-12:00 block open", () => {
+    expect(statuslineData(input, group, [other("2026-06-15T07:10:00.000Z")], opts, now).blockRemainingMinutes).toBe(90);
+  });
+});
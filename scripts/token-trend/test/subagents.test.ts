@@ -0,0 +1,37 @@
+import { describe, expect, test } from "bun:test";
+import { join } from "node:path";
+import { aggregate, loadPricing, loadSessions, resolveSources, type ParseOptions } from "../lib.ts";
+import { UNLINKED_SUBAGENT } from "../report.ts";
+
+// -work-delta/parent.jsonl spawns code-reviewer (run in parent/subagents/agent-a1.jsonl,
+// named by the Task result's agentId) and explorer (a legacy in-file sidechain, known
+// only by its root prompt). agent-zz.jsonl was spawned by nothing in the transcript.
+const FIXTURES = join(import.meta.dir, "fixtures");
+const opts: ParseOptions = { pricing: loadPricing(join(FIXTURES, "pricing.json")) };
+const sessions = loadSessions(resolveSources({ claude: join(FIXTURES, "subagents") }, "claude"), {}, opts);
+const report = aggregate(sessions, {}, opts);
+const row = (type: string) => report.subagents.find(r => r.subagentType === type)!;
+
+describe("subagent attribution", () => {
+  test("subagent files join their parent session", () => {
+    expect(sessions.map(s => s.sessionId)).toEqual(["parent"]);
+    expect(sessions[0].sidechains.size).toBe(3);
+    // Main thread 121 + code-reviewer 242 + explorer 385 + orphan 10.
+    expect(report.summary.tokens).toBe(758);
+  });
+
+  test("a sidechain file is linked to its Task call through the result's agentId", () => {
+    expect(row("code-reviewer")).toMatchObject({ invocations: 1, runs: 1, tokens: 242, toolCalls: 1, toolErrors: 0 });
+    // 200×3 + 20×15 + 20×3 + 2×15 at the rates before June.
+    expect(row("code-reviewer").costUsd).toBeCloseTo(990 / 1_000_000, 10);
+    expect(row("code-reviewer").costPerInvocationUsd).toBeCloseTo(row("code-reviewer").costUsd, 10);
+  });
+
+  test("an in-file sidechain without agentId is linked through the hash of its root prompt", () => {
+    expect(row("explorer")).toMatchObject({ invocations: 1, runs: 1, tokens: 385, toolCalls: 1, toolErrors: 1 });
+  });
+
+  test("a run nothing spawned is kept as unlinked", () => {
+    expect(row(UNLINKED_SUBAGENT)).toMatchObject({ invocations: 0, runs: 1, tokens: 10, costPerInvocationUsd: null });
+  });
+});
@@ -0,0 +1,74 @@
+import { describe, expect, test } from "bun:test";
+import { join } from "node:path";
+import { buildTimeline, loadMessageGroups, loadPricing, parseLines, renderTimeline, renderTimelineCsv, resolveSources, type ParseOptions, type TimelineEvent } from "../lib.ts";
+import { UNLINKED_SUBAGENT } from "../report.ts";
+
+// The subagents fixture: agent-a1.jsonl ran while the main thread waited on its Task
+// call (02.1–02.4), the explorer sidechain is inline, agent-zz.jsonl comes last.
+const FIXTURES = join(import.meta.dir, "fixtures");
+const opts: ParseOptions = { pricing: loadPricing(join(FIXTURES, "pricing.json")) };
+const [group] = loadMessageGroups(resolveSources({ claude: join(FIXTURES, "subagents") }, "claude"), id => id === "parent");
+const timeline = buildTimeline(group, opts);
+
+const label = (e: TimelineEvent) => [e.kind, e.kind === "compact" ? e.trigger : e.subagent ?? "main", e.timestamp!.slice(17, 23)].join(" ");
+
+describe("event order", () => {
+  test("subagent files are interleaved with the main thread by timestamp", () => {
+    expect(timeline.events.map(label)).toEqual([
+      "prompt main 01.000",
+      "turn main 02.000",
+      "prompt code-reviewer 02.100",
+      "turn code-reviewer 02.200",
+      "turn code-reviewer 02.400",
+      "prompt explorer 03.000",
+      "turn explorer 04.000",
+      "turn explorer 06.000",
+      "compact auto 08.500",
+      "turn main 09.000",
+      `prompt ${UNLINKED_SUBAGENT} 14.000`,
+      `turn ${UNLINKED_SUBAGENT} 15.000`,
+    ]);
+  });
+
+  test("running cost follows the sorted order and ends at the session cost", () => {
+    const turns = timeline.events.filter(e => e.kind === "turn");
+    let running = 0;
+    for (const t of turns) expect(t.runningCostUsd).toBeCloseTo((running += t.costUsd), 12);
+    expect(running).toBeCloseTo(timeline.costUsd, 12);
+  });
+
+  test("context growth is measured per conversation, not across them", () => {
+    const deltas = timeline.events.filter(e => e.kind === "turn").map(e => [e.subagent ?? "main", e.contextTokens, e.contextDelta]);
+    expect(deltas).toEqual([
+      ["main", 100, null],
+      ["code-reviewer", 200, null],
+      ["code-reviewer", 20, -180],
+      ["explorer", 300, null],
+      ["explorer", 50, -250],
+      ["main", 10, -90],
+      [UNLINKED_SUBAGENT, 7, null],
+    ]);
+  });
+
+  test("results land on the call that issued them; totals count turns, errors and compactions", () => {
+    const grep = timeline.events.flatMap(e => (e.kind === "turn" ? e.toolCalls : [])).find(c => c.name === "Grep")!;
+    expect(grep).toMatchObject({ target: "loadConfig", isError: true, errorCategory: "other", resultChars: 16 });
+    expect(timeline).toMatchObject({ turns: 7, compactions: 1, toolErrors: 1, tokens: 758 });
+  });
+});
+
+test("an unlinked run reads like the report's subagent table, and keeps its key in the data", () => {
+  const text = renderTimeline(timeline, "table");
+  expect(text).toContain("↳ (sin vincular) · » prompt");
+  expect(text).not.toContain(UNLINKED_SUBAGENT);
+  expect(renderTimelineCsv(timeline).get("timeline-parent.csv")).toContain("," + UNLINKED_SUBAGENT + ",");
+});
+
+test("streamed fragments of one response stay one turn", () => {
+  const fragment = (output: number, content: object) =>
+    JSON.stringify({ type: "assistant", sessionId: "f", timestamp: "2026-04-10T08:00:00.000Z", requestId: "r", message: { id: "m", model: "claude-test", usage: { input_tokens: 10, output_tokens: output }, content: [content] } });
+  const messages = parseLines([fragment(5, { type: "text", text: "a" }), fragment(9, { type: "tool_use", id: "t", name: "Bash", input: { command: "ls" } })].join("\n"));
+  const t = buildTimeline({ sessionId: "f", projectDir: "p", harness: "claude", messages }, opts);
+  expect(t.turns).toBe(1);
+  expect(t.events[0]).toMatchObject({ kind: "turn", input: 10, output: 9, toolCalls: [{ name: "Bash", target: "ls" }] });
+});
@@ -0,0 +1,178 @@
+// Per-session drill-down: replays one session's messages as a turn-by-turn timeline.
+// Costs come from ingestMessage itself (same pricing and fragment dedupe as the
+// report): each turn is charged what its records added to the session totals.
+
+import { classifyError, type ErrorCategory } from "./errors.ts";
+import { ingestMessage, newSession, type Harness, type MessageGroup, type ParseOptions, type SessionStats, type TokenCounts } from "./parse.ts";
+import { totalCost } from "./pricing.ts";
+import { subagentType } from "./report.ts";
+
+export type TimelineToolCall = {
+  name: string;
+  target: string | null;
+  /** Characters in the tool_result, null while no result was seen. */
+  resultChars: number | null;
+  isError: boolean;
+  /** Set when the result failed (errors.ts taxonomy). */
+  errorCategory: ErrorCategory | null;
+  interrupted: boolean;
+};
+
+export type TimelineEvent =
+  | { kind: "prompt"; timestamp: string | null; subagent: string | null; commands: string[]; interrupted: boolean }
+  | {
+      kind: "turn";
+      timestamp: string | null;
+      subagent: string | null;
+      model: string | null;
+      input: number;
+      cacheRead: number;
+      cacheCreate: number;
+      output: number;
+      costUsd: number;
+      runningCostUsd: number;
+      /** Prompt size sent with this turn: input + cache read + cache create. */
+      contextTokens: number;
+      /** Growth over the previous turn of the same (main or subagent) conversation. */
+      contextDelta: number | null;
+      toolCalls: TimelineToolCall[];
+    }
+  | { kind: "compact"; timestamp: string | null; trigger: string; preTokens: number | null };
+
+export type SessionTimeline = {
+  sessionId: string;
+  projectDir: string;
+  harness: Harness;
+  cwd: string | null;
+  firstTs: string | null;
+  lastTs: string | null;
+  turns: number;
+  compactions: number;
+  toolErrors: number;
+  interruptions: number;
+  tokens: number;
+  costUsd: number;
+  events: TimelineEvent[];
+};
+
+type TurnEvent = Extract<TimelineEvent, { kind: "turn" }>;
+
+function usageTotals(s: SessionStats): TokenCounts {
+  const t: TokenCounts = { input: 0, output: 0, cacheRead: 0, cacheCreate: 0, cacheCreate5m: 0, cacheCreate1h: 0 };
+  for (const u of s.modelTokens.values()) {
+    for (const k of Object.keys(t) as (keyof TokenCounts)[]) t[k] += u[k];
+  }
+  return t;
+}
+
+export function buildTimeline(group: MessageGroup, opts: ParseOptions = {}): SessionTimeline {
+  const s = newSession(group.sessionId, group.projectDir, group.harness);
+  const events: TimelineEvent[] = [];
+  // Sidechain key per event, resolved to a subagent type once every link is known.
+  const chainOf = new Map<TimelineEvent, string>();
+  const turnByResponse = new Map<string, TurnEvent>();
+  const callById = new Map<string, TimelineToolCall>();
+  const lastContext = new Map<string, number>();
+
+  for (const m of group.messages) {
+    const before = usageTotals(s);
+    const costBefore = totalCost(s);
+    ingestMessage(s, m, opts);
+    const chainKey = m.isSidechain ? (m.agentId ?? s.openSidechain) : null;
+
+    if (m.compact) {
+      events.push({ kind: "compact", timestamp: m.timestamp, trigger: m.compact.trigger, preTokens: m.compact.preTokens });
+      continue;
+    }
+
+    if (m.type === "user") {
+      for (const r of m.toolResults) {
+        const call = callById.get(r.toolUseId);
+        if (!call) continue;
+        call.resultChars = r.chars;
+        call.isError = r.isError || (call.name === "Bash" && r.exitCodeError);
+        call.errorCategory = classifyError(call.name, r);
+        call.interrupted = r.interrupted;
+      }
+      if (m.toolResults.length === 0) {
+        const ev: TimelineEvent = { kind: "prompt", timestamp: m.timestamp, subagent: null, commands: m.commands, interrupted: m.interrupted };
+        events.push(ev);
+        if (chainKey) chainOf.set(ev, chainKey);
+      }
+      continue;
+    }
+    if (m.type !== "assistant") continue;
+
+    const after = usageTotals(s);
+    const added = { input: after.input - before.input, cacheRead: after.cacheRead - before.cacheRead, cacheCreate: after.cacheCreate - before.cacheCreate, output: after.output - before.output };
+    const cost = totalCost(s) - costBefore;
+
+    let turn = !opts.raw && m.responseKey ? turnByResponse.get(m.responseKey) : undefined;
+    if (!turn) {
+      const conv = chainKey ?? "main";
+      const contextTokens = added.input + added.cacheRead + added.cacheCreate;
+      const prev = lastContext.get(conv);
+      turn = {
+        kind: "turn",
+        timestamp: m.timestamp,
+        subagent: null,
+        model: m.model,
+        input: 0,
+        cacheRead: 0,
+        cacheCreate: 0,
+        output: 0,
+        costUsd: 0,
+        runningCostUsd: 0,
+        contextTokens,
+        contextDelta: prev === undefined ? null : contextTokens - prev,
+        toolCalls: [],
+      };
+      if (contextTokens > 0) lastContext.set(conv, contextTokens);
+      events.push(turn);
+      if (chainKey) chainOf.set(turn, chainKey);
+      if (m.responseKey) turnByResponse.set(m.responseKey, turn);
+    }
+    turn.input += added.input;
+    turn.cacheRead += added.cacheRead;
+    turn.cacheCreate += added.cacheCreate;
+    turn.output += added.output;
+    turn.costUsd += cost;
+    for (const c of m.toolCalls) {
+      const call: TimelineToolCall = { name: c.name, target: c.target ?? c.subagentType ?? null, resultChars: null, isError: false, errorCategory: null, interrupted: false };
+      turn.toolCalls.push(call);
+      if (c.id) callById.set(c.id, call);
+    }
+  }
+
+  for (const [ev, key] of chainOf) {
+    if (ev.kind === "compact") continue;
+    const chain = s.sidechains.get(key);
+    ev.subagent = chain ? subagentType(s, chain.agentId, chain.promptKey) : key;
+  }
+
+  // Subagent files are replayed after the main transcript; interleave them by time
+  // (stable, so untimestamped records keep their place) before summing running cost.
+  const at = (e: TimelineEvent) => (e.timestamp ? Date.parse(e.timestamp) : NaN);
+  events.sort((a, b) => (Number.isNaN(at(a)) || Number.isNaN(at(b)) ? 0 : at(a) - at(b)));
+  let running = 0;
+  for (const ev of events) {
+    if (ev.kind === "turn") ev.runningCostUsd = running += ev.costUsd;
+  }
+
+  const totals = usageTotals(s);
+  return {
+    sessionId: s.sessionId,
+    projectDir: s.projectDir,
+    harness: s.harness,
+    cwd: s.cwd,
+    firstTs: s.firstTs,
+    lastTs: s.lastTs,
+    turns: events.filter(e => e.kind === "turn").length,
+    compactions: events.filter(e => e.kind === "compact").length,
+    toolErrors: events.reduce((a, e) => a + (e.kind === "turn" ? e.toolCalls.filter(c => c.isError).length : 0), 0),
+    interruptions: events.reduce((a, e) => a + (e.kind === "prompt" && e.interrupted ? 1 : e.kind === "turn" ? e.toolCalls.filter(c => c.interrupted).length : 0), 0),
+    tokens: totals.input + totals.output + totals.cacheRead + totals.cacheCreate,
+    costUsd: totalCost(s),
+    events,
+  };
+}